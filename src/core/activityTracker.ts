@@ -0,0 +1,230 @@
+/**
+ * Activity Tracker for Kubito
+ *
+ * Measures how long the user is actually working in VS Code.
+ * Features:
+ * - Combines edits, selections, scrolling, editor focus, terminal use and window focus
+ * - Contiguous active segments: time between two signals counts when the gap is
+ *   below the idle threshold
+ * - Active, idle and away states with change events
+ */
+
+import * as vscode from 'vscode';
+
+/**
+ * Activity states
+ * - active: recent activity in a focused window
+ * - idle: window focused but no activity for the idle threshold
+ * - away: VS Code window not focused
+ */
+export type ActivityState = 'active' | 'idle' | 'away';
+
+/**
+ * Signals counted as user activity
+ */
+export type ActivitySource = 'edit' | 'selection' | 'scroll' | 'editor' | 'terminal';
+
+/**
+ * A contiguous period of activity
+ */
+export interface IActivitySegment {
+  start: number; // Timestamp (ms)
+  end: number; // Timestamp (ms) of the last activity in the segment
+}
+
+/**
+ * Payload of a state change event
+ */
+export interface IActivityStateChange {
+  previous: ActivityState;
+  current: ActivityState;
+  at: number; // Timestamp (ms) of the change
+}
+
+/**
+ * Tracks active segments and idle/away transitions
+ */
+export class ActivityTracker {
+  private state: ActivityState;
+  private segmentStart: number | null; // Start of the open segment, null while idle or away
+  private lastActivity: number;
+  private closedActiveMs = 0; // Total length of closed segments
+  private readonly segments: IActivitySegment[] = [];
+  private checkTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly stateEmitter = new vscode.EventEmitter<IActivityStateChange>();
+  private readonly MAX_SEGMENTS = 500;
+  private readonly CHECK_INTERVAL_MS = 15 * 1000;
+
+  /**
+   * Fired when the state changes between active, idle and away
+   */
+  public readonly onDidChangeState = this.stateEmitter.event;
+
+  /**
+   * @param idleThresholdMs - Gap without activity after which the user is idle
+   * @param now - Start time, the user is considered active from then
+   */
+  constructor(
+    private readonly idleThresholdMs: number,
+    now: number = Date.now()
+  ) {
+    this.state = 'active';
+    this.segmentStart = now;
+    this.lastActivity = now;
+  }
+
+  /**
+   * Listen to VS Code activity signals and check for idleness periodically
+   */
+  public startListening(): void {
+    if (this.checkTimer) {
+      return;
+    }
+
+    const record = (source: ActivitySource) => (): void => this.recordActivity(source);
+
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument(record('edit')),
+      vscode.window.onDidChangeTextEditorSelection(record('selection')),
+      vscode.window.onDidChangeTextEditorVisibleRanges(record('scroll')),
+      vscode.window.onDidChangeActiveTextEditor(record('editor')),
+      vscode.window.onDidChangeActiveTerminal(record('terminal')),
+      vscode.window.onDidChangeTerminalState(record('terminal')),
+      vscode.window.onDidStartTerminalShellExecution(record('terminal')),
+      vscode.window.onDidEndTerminalShellExecution(record('terminal')),
+      vscode.window.onDidChangeWindowState(state => this.setWindowFocused(state.focused))
+    );
+
+    if (!vscode.window.state.focused) {
+      this.setWindowFocused(false);
+    }
+
+    this.checkTimer = setInterval(() => this.update(), this.CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Record a user activity signal
+   * @param source - What the user did
+   * @param at - When it happened
+   */
+  public recordActivity(source: ActivitySource, at: number = Date.now()): void {
+    if (this.state === 'away') {
+      // Events can still arrive from an unfocused window (e.g. tasks writing files)
+      return;
+    }
+
+    this.update(at);
+
+    if (this.segmentStart === null) {
+      this.segmentStart = at;
+    }
+    this.lastActivity = at;
+    this.setState('active', at);
+  }
+
+  /**
+   * Update the window focus; losing focus closes the current segment
+   * @param focused - Whether the VS Code window is focused
+   * @param at - When the focus changed
+   */
+  public setWindowFocused(focused: boolean, at: number = Date.now()): void {
+    if (focused) {
+      if (this.state === 'away') {
+        this.segmentStart = at;
+        this.lastActivity = at;
+        this.setState('active', at);
+      }
+      return;
+    }
+
+    this.update(at);
+    this.closeSegment();
+    this.setState('away', at);
+  }
+
+  /**
+   * Detect idleness: close the segment once the idle threshold passed
+   * @param at - Current time
+   */
+  public update(at: number = Date.now()): void {
+    if (this.state === 'active' && at - this.lastActivity >= this.idleThresholdMs) {
+      this.closeSegment();
+      this.setState('idle', at);
+    }
+  }
+
+  /**
+   * Get the current state
+   */
+  public getState(): ActivityState {
+    return this.state;
+  }
+
+  /**
+   * Get the total active time
+   * The open segment counts up to the last activity, so the value never decreases
+   * @param at - Current time
+   */
+  public getActiveTimeMs(at: number = Date.now()): number {
+    this.update(at);
+
+    const openMs = this.segmentStart !== null ? this.lastActivity - this.segmentStart : 0;
+    return this.closedActiveMs + openMs;
+  }
+
+  /**
+   * Get the time of the last activity
+   */
+  public getLastActivityTime(): Date {
+    return new Date(this.lastActivity);
+  }
+
+  /**
+   * Get closed activity segments, oldest first
+   */
+  public getSegments(): IActivitySegment[] {
+    return [...this.segments];
+  }
+
+  /**
+   * Close the open segment, if any
+   */
+  private closeSegment(): void {
+    if (this.segmentStart === null) {
+      return;
+    }
+
+    this.closedActiveMs += this.lastActivity - this.segmentStart;
+    this.segments.push({ start: this.segmentStart, end: this.lastActivity });
+    if (this.segments.length > this.MAX_SEGMENTS) {
+      this.segments.shift();
+    }
+    this.segmentStart = null;
+  }
+
+  /**
+   * Change state and notify listeners
+   */
+  private setState(state: ActivityState, at: number): void {
+    if (state === this.state) {
+      return;
+    }
+
+    const previous = this.state;
+    this.state = state;
+    this.stateEmitter.fire({ previous, current: state, at });
+  }
+
+  /**
+   * Cleanup resources
+   */
+  public dispose(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.stateEmitter.dispose();
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Custom Message Packs for Kubito
+ *
+ * Lets users and teams add their own messages to Kubito's random pool.
+ * Features:
+ * - Messages from the `kubito.customMessages` setting
+ * - Messages from `.kubito/messages.json` in each (trusted) workspace folder
+ * - Text, emoji and workspace image messages
+ * - Optional weights, time contexts and languages per message
+ * - Option to replace the built-in messages entirely
+ */
+
+import * as vscode from 'vscode';
+
+/**
+ * Workspace file with a team's message pack, relative to each workspace folder
+ */
+export const CUSTOM_MESSAGES_FILE = '.kubito/messages.json';
+
+/**
+ * Time contexts a custom message can be limited to (same names as the webview contexts)
+ */
+export const MESSAGE_CONTEXTS: readonly string[] = [
+  'morning',
+  'afternoon',
+  'evening',
+  'lateNight',
+  'monday',
+  'friday',
+  'weekend',
+  'workday',
+  'christmas'
+];
+
+/**
+ * Weight bounds: how many times a message is entered in the random pool
+ */
+const MIN_WEIGHT = 1;
+const MAX_WEIGHT = 10;
+
+/**
+ * A message defined by the user or the workspace
+ */
+export interface ICustomMessage {
+  type: 'text' | 'emoji' | 'image';
+  content: string; // Text, emoji or image path relative to the workspace folder
+  alt?: string; // Image description
+  imageUri?: vscode.Uri; // Resolved image location (image messages only)
+  weight: number; // 1-10, higher weights are picked more often
+  contexts: string[]; // Only shown in these time contexts (empty = always)
+  languages: string[]; // Only shown in these languages (empty = all)
+}
+
+/**
+ * All custom messages and how they combine with the built-in ones
+ */
+export interface ICustomMessagePack {
+  messages: ICustomMessage[];
+  replaceBuiltIn: boolean;
+}
+
+/**
+ * Read a list of strings, keeping only allowed values when a list is given
+ */
+function parseStringList(value: unknown, allowed?: readonly string[]): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+    .map(item => item.trim())
+    .filter(item => !allowed || allowed.includes(item));
+}
+
+/**
+ * Resolve an image path inside a folder, rejecting paths that leave it
+ */
+function resolveImage(folder: vscode.Uri, relativePath: string): vscode.Uri | undefined {
+  const imageUri = vscode.Uri.joinPath(folder, relativePath);
+  const folderPath = folder.path.endsWith('/') ? folder.path : `${folder.path}/`;
+
+  return imageUri.path.startsWith(folderPath) ? imageUri : undefined;
+}
+
+/**
+ * Parse custom message definitions, skipping invalid entries
+ * @param value - Raw setting or file content (an array of messages)
+ * @param folder - Workspace folder image paths are relative to (images are skipped without one)
+ */
+export function parseCustomMessages(value: unknown, folder?: vscode.Uri): ICustomMessage[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const messages: ICustomMessage[] = [];
+
+  value.forEach(item => {
+    if (!item || typeof item !== 'object') {
+      return;
+    }
+
+    const raw = item as Record<string, unknown>;
+    const type = raw.type === 'emoji' || raw.type === 'image' ? raw.type : 'text';
+    const content = typeof raw.content === 'string' ? raw.content.trim() : '';
+    if (!content) {
+      return;
+    }
+
+    const imageUri = type === 'image' && folder ? resolveImage(folder, content) : undefined;
+    if (type === 'image' && !imageUri) {
+      return;
+    }
+
+    const weight = typeof raw.weight === 'number' && raw.weight > 0 ? Math.round(raw.weight) : 1;
+
+    messages.push({
+      type,
+      content,
+      ...(typeof raw.alt === 'string' ? { alt: raw.alt } : {}),
+      ...(imageUri ? { imageUri } : {}),
+      weight: Math.min(MAX_WEIGHT, Math.max(MIN_WEIGHT, weight)),
+      contexts: parseStringList(raw.contexts, MESSAGE_CONTEXTS),
+      languages: parseStringList(raw.languages).map(language => language.toLowerCase())
+    });
+  });
+
+  return messages;
+}
+
+/**
+ * Read the message pack file of a workspace folder
+ * The file holds an array of messages, or an object with a `messages` array
+ */
+async function readWorkspaceMessages(folder: vscode.Uri): Promise<ICustomMessage[]> {
+  try {
+    const bytes = await vscode.workspace.fs.readFile(
+      vscode.Uri.joinPath(folder, CUSTOM_MESSAGES_FILE)
+    );
+    const parsed: unknown = JSON.parse(Buffer.from(bytes).toString('utf8'));
+    const list =
+      parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? (parsed as Record<string, unknown>).messages
+        : parsed;
+
+    return parseCustomMessages(list, folder);
+  } catch {
+    // Missing or invalid files simply contribute no messages
+    return [];
+  }
+}
+
+/**
+ * Load custom messages from the settings and the workspace message pack files
+ * Workspace files are only read in trusted workspaces
+ */
+export async function loadCustomMessages(): Promise<ICustomMessagePack> {
+  const config = vscode.workspace.getConfiguration('kubito');
+  const folders = vscode.workspace.workspaceFolders ?? [];
+
+  // Image paths in the settings are relative to the first workspace folder
+  const messages = parseCustomMessages(
+    config.get<unknown[]>('customMessages', []),
+    folders[0]?.uri
+  );
+
+  if (vscode.workspace.isTrusted) {
+    const workspaceMessages = await Promise.all(
+      folders.map(folder => readWorkspaceMessages(folder.uri))
+    );
+    workspaceMessages.forEach(list => messages.push(...list));
+  }
+
+  return {
+    messages,
+    replaceBuiltIn: config.get<boolean>('replaceBuiltInMessages', false)
+  };
+}
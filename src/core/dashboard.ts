@@ -0,0 +1,522 @@
+/**
+ * Productivity Dashboard for Kubito
+ *
+ * Opens an editor panel with charts built from the running session and the
+ * daily metrics history.
+ * Features:
+ * - Session timeline (lines written and deleted per interval)
+ * - Lines written vs. deleted per day
+ * - Per-language breakdown
+ * - Files touched during the session
+ * - Daily productivity score trend
+ *
+ * Charts are rendered as inline SVG on the extension side, so the panel needs no
+ * remote resources and only uses VS Code theme colors. Its only script swaps in the
+ * content of periodic refreshes, so the page keeps its scroll position.
+ */
+
+import { randomBytes } from 'crypto';
+import * as vscode from 'vscode';
+import { IDailyMetrics } from './metricsHistory';
+import { ISessionSnapshot, calculateProductivityScore, formatDuration } from './productivity';
+import { getCurrentLanguage, getLanguageDirection, t } from '../localization';
+
+/**
+ * Data needed to render the dashboard
+ */
+export interface IDashboardData {
+  session: ISessionSnapshot | undefined; // Undefined when Kubito's view is not open
+  history: IDailyMetrics[]; // Daily records for the charted period, oldest first
+  days: string[]; // Date keys of the charted period, oldest first
+}
+
+/**
+ * Chart series rendered with a theme color
+ */
+interface IChartSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+/**
+ * Layout constants for the SVG charts
+ */
+const CHART_CONFIG = {
+  WIDTH: 600,
+  HEIGHT: 180,
+  PADDING: 28,
+  BAR_GAP: 2,
+  LANGUAGE_BAR_HEIGHT: 18,
+  MAX_LANGUAGES: 8,
+  MAX_FILES: 15,
+  REFRESH_INTERVAL: 60 * 1000 // Refresh every minute while visible
+} as const;
+
+/**
+ * Theme colors used by the charts (VS Code chart palette)
+ */
+const CHART_COLORS = {
+  written: 'var(--vscode-charts-green)',
+  deleted: 'var(--vscode-charts-red)',
+  score: 'var(--vscode-charts-blue)',
+  languages: [
+    'var(--vscode-charts-blue)',
+    'var(--vscode-charts-purple)',
+    'var(--vscode-charts-orange)',
+    'var(--vscode-charts-yellow)',
+    'var(--vscode-charts-green)',
+    'var(--vscode-charts-red)'
+  ]
+} as const;
+
+/**
+ * Webview panel showing Kubito's productivity dashboard
+ * Only one dashboard exists at a time; opening it again reveals the existing panel
+ */
+export class ProductivityDashboard {
+  private static currentPanel: ProductivityDashboard | undefined;
+
+  private readonly disposables: vscode.Disposable[] = [];
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Open the dashboard, or reveal and refresh it if it is already open
+   * @param getData - Callback that collects the data to display
+   */
+  public static show(getData: () => Promise<IDashboardData>): void {
+    if (ProductivityDashboard.currentPanel) {
+      ProductivityDashboard.currentPanel.panel.reveal(vscode.ViewColumn.Active);
+      void ProductivityDashboard.currentPanel.render();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'kubitoDashboard',
+      t('productivity.dashboard.panelTitle'),
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true, // Only the inline script receiving refreshed content
+        localResourceRoots: []
+      }
+    );
+
+    ProductivityDashboard.currentPanel = new ProductivityDashboard(panel, getData);
+  }
+
+  private constructor(
+    private readonly panel: vscode.WebviewPanel,
+    private readonly getData: () => Promise<IDashboardData>
+  ) {
+    void this.render();
+
+    this.refreshTimer = setInterval(() => {
+      if (this.panel.visible) {
+        void this.refresh();
+      }
+    }, CHART_CONFIG.REFRESH_INTERVAL);
+
+    this.panel.onDidChangeViewState(
+      event => {
+        if (event.webviewPanel.visible) {
+          void this.render();
+        }
+      },
+      null,
+      this.disposables
+    );
+
+    this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+  }
+
+  /**
+   * Collect fresh data and replace the panel HTML
+   * Used when the panel is opened or shown again, since hidden panels reload their page anyway
+   */
+  private async render(): Promise<void> {
+    const data = await this.getData();
+    this.panel.webview.html = getDashboardContent(data);
+  }
+
+  /**
+   * Collect fresh data and update the open page in place, keeping its scroll position
+   */
+  private async refresh(): Promise<void> {
+    const data = await this.getData();
+    void this.panel.webview.postMessage({ command: 'update', html: getDashboardBody(data) });
+  }
+
+  /**
+   * Release timers and listeners when the panel is closed
+   */
+  private dispose(): void {
+    ProductivityDashboard.currentPanel = undefined;
+
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables.length = 0;
+  }
+}
+
+/**
+ * Generate the full dashboard HTML
+ * @param data - Session and history data to render
+ * @returns HTML document
+ */
+export function getDashboardContent(data: IDashboardData): string {
+  const nonce = randomBytes(16).toString('base64');
+
+  return `<!DOCTYPE html>
+<html lang="${getCurrentLanguage()}" dir="${getLanguageDirection()}">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(t('productivity.dashboard.panelTitle'))}</title>
+    <style>
+        body {
+            color: var(--vscode-foreground);
+            background: var(--vscode-editor-background);
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            padding: 0 20px 20px;
+        }
+        h1, h2 { font-weight: 600; }
+        h2 { font-size: 1.1em; margin-top: 28px; }
+        section { max-width: ${CHART_CONFIG.WIDTH + 40}px; }
+        .cards { display: flex; flex-wrap: wrap; gap: 10px; max-width: none; }
+        .card {
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+            padding: 10px 14px;
+            min-width: 110px;
+        }
+        .card .value { font-size: 1.5em; font-weight: 600; margin-top: 4px; }
+        .muted { color: var(--vscode-descriptionForeground); }
+        .legend { display: flex; gap: 14px; margin: 6px 0; }
+        .legend span::before {
+            content: '';
+            display: inline-block;
+            width: 10px;
+            height: 10px;
+            margin-right: 6px;
+            background: var(--swatch);
+        }
+        svg text { fill: var(--vscode-descriptionForeground); font-size: 10px; }
+        svg .axis { stroke: var(--vscode-panel-border); }
+        ul.files { padding-left: 18px; }
+        ul.files li { font-family: var(--vscode-editor-font-family); }
+    </style>
+</head>
+<body>
+    <main id="dashboard">${getDashboardBody(data)}</main>
+    <script nonce="${nonce}">
+        // Periodic refreshes replace the content in place instead of reloading the page
+        window.addEventListener('message', event => {
+            if (event.data && event.data.command === 'update') {
+                document.getElementById('dashboard').innerHTML = event.data.html;
+            }
+        });
+    </script>
+</body>
+</html>`;
+}
+
+/**
+ * Generate the dashboard content, without the page around it
+ * @param data - Session and history data to render
+ * @returns HTML fragment, sent on its own by periodic refreshes
+ */
+export function getDashboardBody(data: IDashboardData): string {
+  const { session, history, days } = data;
+
+  // Aggregate history per day (across workspaces)
+  const written = days.map(day => sumBy(history, day, entry => entry.linesWritten));
+  const deleted = days.map(day => sumBy(history, day, entry => entry.linesDeleted));
+  const scores = days.map(day => {
+    const entries = history.filter(entry => entry.date === day);
+    return calculateProductivityScore({
+      sessionTimeMs: entries.reduce((total, entry) => total + entry.sessionTimeMs, 0),
+      activeTimeMs: entries.reduce((total, entry) => total + entry.activeTimeMs, 0),
+      linesWritten: entries.reduce((total, entry) => total + entry.linesWritten, 0),
+      filesModified: new Set(entries.flatMap(entry => entry.filesModified)).size
+    });
+  });
+  const dayLabels = days.map(day => day.slice(5)); // MM-DD
+
+  const languages: Record<string, number> = {};
+  history.forEach(entry => {
+    Object.entries(entry.languages).forEach(([language, lines]) => {
+      languages[language] = (languages[language] || 0) + lines;
+    });
+  });
+
+  const sessionSection = session
+    ? `
+    <section class="cards">
+      ${renderCard(t('productivity.dashboard.session'), session.insights.sessionDuration)}
+      ${renderCard(t('productivity.dashboard.linesWritten'), String(session.linesWritten))}
+      ${renderCard(t('productivity.dashboard.linesDeleted'), String(session.linesDeleted))}
+      ${renderCard(t('productivity.dashboard.filesTouched'), String(session.filesModified.length))}
+      ${renderCard(t('productivity.dashboard.score'), `${session.insights.productivityScore}/100`)}
+      ${renderCard(t('productivity.dashboard.pomodoros'), String(session.pomodorosCompleted))}
+    </section>
+    <section>
+      <h2>${escapeHtml(t('productivity.dashboard.sessionTimeline'))}</h2>
+      ${renderBarChart(
+        session.timeline.map(point => formatTime(point.time)),
+        [
+          {
+            label: t('productivity.dashboard.written'),
+            color: CHART_COLORS.written,
+            values: session.timeline.map(point => point.linesWritten)
+          },
+          {
+            label: t('productivity.dashboard.deleted'),
+            color: CHART_COLORS.deleted,
+            values: session.timeline.map(point => point.linesDeleted)
+          }
+        ],
+        t('productivity.dashboard.timelineEmpty')
+      )}
+      <p class="muted">${escapeHtml(
+        t('productivity.metrics.activeTime', {
+          duration: formatDuration(
+            session.timeline.reduce((total, point) => total + point.activeTimeMs, 0)
+          )
+        })
+      )}</p>
+    </section>`
+    : `
+    <section>
+      <p class="muted">${escapeHtml(t('productivity.dashboard.openKubito'))}</p>
+    </section>`;
+
+  return `
+    <h1>${escapeHtml(t('productivity.dashboard.title'))}</h1>
+    ${sessionSection}
+    <section>
+      <h2>${escapeHtml(t('productivity.dashboard.linesChart', { days: days.length }))}</h2>
+      ${renderBarChart(dayLabels, [
+        {
+          label: t('productivity.dashboard.written'),
+          color: CHART_COLORS.written,
+          values: written
+        },
+        { label: t('productivity.dashboard.deleted'), color: CHART_COLORS.deleted, values: deleted }
+      ])}
+    </section>
+    <section>
+      <h2>${escapeHtml(t('productivity.dashboard.scoreTrend'))}</h2>
+      ${renderLineChart(dayLabels, { label: t('productivity.dashboard.score'), color: CHART_COLORS.score, values: scores }, 100)}
+    </section>
+    <section>
+      <h2>${escapeHtml(t('productivity.dashboard.languages'))}</h2>
+      ${renderLanguageChart(languages)}
+    </section>
+    ${session ? renderFileList(session.filesModified) : ''}`;
+}
+
+/**
+ * Render a summary card
+ */
+function renderCard(label: string, value: string): string {
+  return `<div class="card"><div class="muted">${escapeHtml(label)}</div><div class="value">${escapeHtml(value)}</div></div>`;
+}
+
+/**
+ * Render a chart legend for a list of series
+ */
+function renderLegend(series: IChartSeries[]): string {
+  return `<div class="legend">${series
+    .map(item => `<span style="--swatch: ${item.color}">${escapeHtml(item.label)}</span>`)
+    .join('')}</div>`;
+}
+
+/**
+ * Render a grouped bar chart
+ * @param labels - Label for each group (x axis)
+ * @param series - Values per series, one per label
+ * @param emptyMessage - Message shown when there is nothing to chart
+ */
+function renderBarChart(labels: string[], series: IChartSeries[], emptyMessage?: string): string {
+  const maxValue = Math.max(0, ...series.flatMap(item => item.values));
+  if (labels.length === 0 || maxValue === 0) {
+    return `<p class="muted">${escapeHtml(emptyMessage ?? t('productivity.dashboard.noActivity'))}</p>`;
+  }
+
+  const { WIDTH, HEIGHT, PADDING, BAR_GAP } = CHART_CONFIG;
+  const plotWidth = WIDTH - PADDING * 2;
+  const plotHeight = HEIGHT - PADDING * 2;
+  const groupWidth = plotWidth / labels.length;
+  const barWidth = Math.max(1, (groupWidth - BAR_GAP * 2) / series.length);
+  const labelStep = Math.ceil(labels.length / 10); // Show at most ~10 x labels
+
+  const bars = labels
+    .map((label, index) => {
+      const groupX = PADDING + index * groupWidth + BAR_GAP;
+      const rects = series
+        .map((item, seriesIndex) => {
+          const value = item.values[index] ?? 0;
+          const height = (value / maxValue) * plotHeight;
+          const x = groupX + seriesIndex * barWidth;
+          const y = PADDING + plotHeight - height;
+          return `<rect x="${x.toFixed(1)}" y="${y.toFixed(1)}" width="${barWidth.toFixed(1)}" height="${height.toFixed(1)}" fill="${item.color}"><title>${escapeHtml(`${label} · ${item.label}: ${value}`)}</title></rect>`;
+        })
+        .join('');
+      const text =
+        index % labelStep === 0
+          ? `<text x="${(groupX + groupWidth / 2).toFixed(1)}" y="${HEIGHT - 8}" text-anchor="middle">${escapeHtml(label)}</text>`
+          : '';
+      return rects + text;
+    })
+    .join('');
+
+  return `${renderLegend(series)}
+      <svg viewBox="0 0 ${WIDTH} ${HEIGHT}" width="100%" role="img">
+        <line class="axis" x1="${PADDING}" y1="${PADDING + plotHeight}" x2="${WIDTH - PADDING}" y2="${PADDING + plotHeight}" />
+        <text x="${PADDING - 4}" y="${PADDING + 4}" text-anchor="end">${maxValue}</text>
+        ${bars}
+      </svg>`;
+}
+
+/**
+ * Render a line chart for a single series
+ * @param labels - Label for each point (x axis)
+ * @param series - Values to plot
+ * @param maxValue - Fixed maximum of the y axis
+ */
+function renderLineChart(labels: string[], series: IChartSeries, maxValue: number): string {
+  if (labels.length === 0 || series.values.every(value => value === 0)) {
+    return `<p class="muted">${escapeHtml(t('productivity.dashboard.noActivity'))}</p>`;
+  }
+
+  const { WIDTH, HEIGHT, PADDING } = CHART_CONFIG;
+  const plotWidth = WIDTH - PADDING * 2;
+  const plotHeight = HEIGHT - PADDING * 2;
+  const step = labels.length > 1 ? plotWidth / (labels.length - 1) : 0;
+  const labelStep = Math.ceil(labels.length / 10);
+
+  const points = series.values.map((value, index) => ({
+    x: PADDING + index * step,
+    y: PADDING + plotHeight - (value / maxValue) * plotHeight,
+    value,
+    label: labels[index] ?? ''
+  }));
+
+  const path = points.map(point => `${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' ');
+  const dots = points
+    .map(
+      point =>
+        `<circle cx="${point.x.toFixed(1)}" cy="${point.y.toFixed(1)}" r="3" fill="${series.color}"><title>${escapeHtml(`${point.label} · ${series.label}: ${point.value}`)}</title></circle>`
+    )
+    .join('');
+  const xLabels = points
+    .filter((_, index) => index % labelStep === 0)
+    .map(
+      point =>
+        `<text x="${point.x.toFixed(1)}" y="${HEIGHT - 8}" text-anchor="middle">${escapeHtml(point.label)}</text>`
+    )
+    .join('');
+
+  return `<svg viewBox="0 0 ${WIDTH} ${HEIGHT}" width="100%" role="img">
+        <line class="axis" x1="${PADDING}" y1="${PADDING + plotHeight}" x2="${WIDTH - PADDING}" y2="${PADDING + plotHeight}" />
+        <text x="${PADDING - 4}" y="${PADDING + 4}" text-anchor="end">${maxValue}</text>
+        <polyline points="${path}" fill="none" stroke="${series.color}" stroke-width="2" />
+        ${dots}
+        ${xLabels}
+      </svg>`;
+}
+
+/**
+ * Render horizontal bars with lines written per language
+ */
+function renderLanguageChart(languages: Record<string, number>): string {
+  const entries = Object.entries(languages)
+    .filter(([, lines]) => lines > 0)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, CHART_CONFIG.MAX_LANGUAGES);
+
+  if (entries.length === 0) {
+    return `<p class="muted">${escapeHtml(t('productivity.dashboard.noActivity'))}</p>`;
+  }
+
+  const { WIDTH, LANGUAGE_BAR_HEIGHT } = CHART_CONFIG;
+  const labelWidth = 120;
+  const maxLines = entries[0]?.[1] ?? 1;
+  const height = entries.length * (LANGUAGE_BAR_HEIGHT + 6);
+
+  const bars = entries
+    .map(([language, lines], index) => {
+      const y = index * (LANGUAGE_BAR_HEIGHT + 6);
+      const width = ((WIDTH - labelWidth - 60) * lines) / maxLines;
+      const color = CHART_COLORS.languages[index % CHART_COLORS.languages.length];
+      return `<text x="${labelWidth - 8}" y="${y + LANGUAGE_BAR_HEIGHT - 5}" text-anchor="end">${escapeHtml(language)}</text>
+        <rect x="${labelWidth}" y="${y}" width="${width.toFixed(1)}" height="${LANGUAGE_BAR_HEIGHT}" fill="${color}" />
+        <text x="${(labelWidth + width + 6).toFixed(1)}" y="${y + LANGUAGE_BAR_HEIGHT - 5}">${lines}</text>`;
+    })
+    .join('');
+
+  return `<svg viewBox="0 0 ${WIDTH} ${height}" width="100%" role="img">${bars}</svg>`;
+}
+
+/**
+ * Render the list of files touched during the session
+ */
+function renderFileList(files: string[]): string {
+  if (files.length === 0) {
+    return '';
+  }
+
+  const items = files
+    .slice(0, CHART_CONFIG.MAX_FILES)
+    .map(file => `<li>${escapeHtml(vscode.workspace.asRelativePath(file))}</li>`)
+    .join('');
+  const more =
+    files.length > CHART_CONFIG.MAX_FILES
+      ? `<p class="muted">${escapeHtml(t('productivity.dashboard.moreFiles', { count: files.length - CHART_CONFIG.MAX_FILES }))}</p>`
+      : '';
+
+  return `<section>
+      <h2>${escapeHtml(t('productivity.dashboard.filesThisSession'))}</h2>
+      <ul class="files">${items}</ul>
+      ${more}
+    </section>`;
+}
+
+/**
+ * Sum a numeric field for all records of a day
+ */
+function sumBy(
+  history: IDailyMetrics[],
+  day: string,
+  field: (entry: IDailyMetrics) => number
+): number {
+  return history
+    .filter(entry => entry.date === day)
+    .reduce((total, entry) => total + field(entry), 0);
+}
+
+/**
+ * Format a timestamp as HH:MM
+ */
+function formatTime(time: number): string {
+  const date = new Date(time);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Escape text for safe inclusion in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
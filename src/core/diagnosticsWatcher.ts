@@ -0,0 +1,277 @@
+/**
+ * Diagnostics Watcher for Kubito
+ *
+ * Follows the errors and warnings reported in the Problems panel for workspace files.
+ * Features:
+ * - Error and warning counts per file and for the whole workspace
+ * - Debounced checks, so errors that only exist while typing are ignored
+ * - Broken (a file seen clean gets errors) and fixed (the workspace reaches zero errors) events
+ * - Diagnostics cleared because a document was closed are not taken for a fix
+ */
+
+import * as vscode from 'vscode';
+
+/**
+ * Errors and warnings of a file or of the workspace
+ */
+export interface IDiagnosticCounts {
+  errors: number;
+  warnings: number;
+}
+
+/**
+ * How the errors of the workspace changed
+ * - broken: a file without errors got some
+ * - fixed: the workspace had errors and has none left
+ */
+export type DiagnosticsChangeKind = 'broken' | 'fixed';
+
+/**
+ * Payload of a diagnostics change event
+ */
+export interface IDiagnosticsChange {
+  kind: DiagnosticsChangeKind;
+  counts: IDiagnosticCounts; // Workspace counts after the change
+  previousErrors: number; // Workspace errors before the change
+}
+
+/**
+ * Count the errors and warnings of a list of diagnostics
+ * @param diagnostics - Diagnostics of a file
+ */
+export function countDiagnostics(diagnostics: readonly vscode.Diagnostic[]): IDiagnosticCounts {
+  return {
+    errors: diagnostics.filter(
+      diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Error
+    ).length,
+    warnings: diagnostics.filter(
+      diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Warning
+    ).length
+  };
+}
+
+/**
+ * Tell how the errors of the workspace changed
+ * Only files seen without errors before can get broken, so files reported for the first
+ * time (e.g. opened with errors already in them) do not count
+ * @param previous - Errors per seen file before the change (0 for files seen clean)
+ * @param current - Errors per seen file after the change
+ * @returns The change, or undefined when Kubito has nothing to say
+ */
+export function classifyDiagnosticsChange(
+  previous: ReadonlyMap<string, number>,
+  current: ReadonlyMap<string, number>
+): DiagnosticsChangeKind | undefined {
+  if (getTotalErrors(previous) > 0 && getTotalErrors(current) === 0) {
+    return 'fixed';
+  }
+
+  const becameBroken = Array.from(current.entries()).some(
+    ([file, errors]) => errors > 0 && previous.get(file) === 0
+  );
+  return becameBroken ? 'broken' : undefined;
+}
+
+/**
+ * Get the message key of Kubito's reaction to a diagnostics change
+ * A file broken in a workspace that already had errors is one more bug
+ * @param change - How the errors of the workspace changed
+ */
+export function getDiagnosticsMessageKey(change: IDiagnosticsChange): string {
+  if (change.kind === 'fixed') {
+    return 'messages.noMoreBugs';
+  }
+  return change.previousErrors > 0 ? 'messages.oneMoreBug' : 'messages.syntaxError';
+}
+
+/**
+ * Add up the errors of all files
+ */
+function getTotalErrors(errors: ReadonlyMap<string, number>): number {
+  return Array.from(errors.values()).reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * Diagnostics counts of the workspace files, without any VS Code listener
+ */
+export class DiagnosticsState {
+  private readonly fileCounts = new Map<string, IDiagnosticCounts>(); // Every seen file
+  private readonly closedFiles = new Set<string>(); // Closed since their last update
+
+  /**
+   * Store the counts of a file without reporting a change (startup scan)
+   * @param file - File URI
+   * @param counts - Counts of the file, undefined when it is not a workspace file
+   */
+  public setFile(file: string, counts: IDiagnosticCounts | undefined): void {
+    if (counts) {
+      this.fileCounts.set(file, counts);
+    } else {
+      this.fileCounts.delete(file);
+    }
+  }
+
+  /**
+   * Remember that a document was closed
+   * Language servers clear the diagnostics of closed documents, which is not a fix
+   * @param file - File URI
+   */
+  public closeFile(file: string): void {
+    this.closedFiles.add(file);
+  }
+
+  /**
+   * Forget that a document was closed, it was opened again
+   * @param file - File URI
+   */
+  public openFile(file: string): void {
+    this.closedFiles.delete(file);
+  }
+
+  /**
+   * Store the counts of changed files and tell how the errors of the workspace changed
+   * Files closed since their last update and cleared now are forgotten, not fixed
+   * @param changes - New counts per file, undefined for files outside the workspace
+   * @returns The change, or undefined when Kubito has nothing to say
+   */
+  public update(
+    changes: ReadonlyMap<string, IDiagnosticCounts | undefined>
+  ): IDiagnosticsChange | undefined {
+    const previous = this.getErrorsPerFile();
+    changes.forEach((counts, file) => {
+      const wasClosed = this.closedFiles.delete(file);
+      if (wasClosed && (!counts || (counts.errors === 0 && counts.warnings === 0))) {
+        this.fileCounts.delete(file);
+        previous.delete(file);
+      } else {
+        this.setFile(file, counts);
+      }
+    });
+
+    const kind = classifyDiagnosticsChange(previous, this.getErrorsPerFile());
+    return kind
+      ? { kind, counts: this.getCounts(), previousErrors: getTotalErrors(previous) }
+      : undefined;
+  }
+
+  /**
+   * Get the errors and warnings of the whole workspace
+   */
+  public getCounts(): IDiagnosticCounts {
+    const counts: IDiagnosticCounts = { errors: 0, warnings: 0 };
+    this.fileCounts.forEach(file => {
+      counts.errors += file.errors;
+      counts.warnings += file.warnings;
+    });
+    return counts;
+  }
+
+  /**
+   * Get the errors of each seen file
+   */
+  private getErrorsPerFile(): Map<string, number> {
+    return new Map(
+      Array.from(this.fileCounts.entries(), ([file, counts]) => [file, counts.errors])
+    );
+  }
+}
+
+/**
+ * Tracks diagnostics of workspace files and reports broken and fixed states
+ */
+export class DiagnosticsWatcher implements vscode.Disposable {
+  private readonly state = new DiagnosticsState();
+  private readonly pendingUris = new Map<string, vscode.Uri>(); // Changed since the last check
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly emitter = new vscode.EventEmitter<IDiagnosticsChange>();
+  private readonly DEBOUNCE_MS = 2000;
+
+  /**
+   * Fired when a file gets broken or the workspace reaches zero errors
+   */
+  public readonly onDidChangeProblems = this.emitter.event;
+
+  /**
+   * Read the current diagnostics and follow their changes
+   * Problems already reported at startup are counted without firing events
+   */
+  public startListening(): void {
+    vscode.languages.getDiagnostics().forEach(([uri, diagnostics]) => {
+      this.state.setFile(uri.toString(), this.getFileCounts(uri, diagnostics));
+    });
+
+    this.disposables.push(
+      vscode.languages.onDidChangeDiagnostics(event => {
+        event.uris.forEach(uri => this.pendingUris.set(uri.toString(), uri));
+        this.scheduleCheck();
+      }),
+      vscode.workspace.onDidCloseTextDocument(document =>
+        this.state.closeFile(document.uri.toString())
+      ),
+      vscode.workspace.onDidOpenTextDocument(document =>
+        this.state.openFile(document.uri.toString())
+      )
+    );
+  }
+
+  /**
+   * Get the errors and warnings of the whole workspace
+   */
+  public getCounts(): IDiagnosticCounts {
+    return this.state.getCounts();
+  }
+
+  /**
+   * Check the changed files once diagnostics stop changing
+   */
+  private scheduleCheck(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.checkPendingFiles();
+    }, this.DEBOUNCE_MS);
+  }
+
+  /**
+   * Count the diagnostics of the changed files and report how the errors changed
+   */
+  private checkPendingFiles(): void {
+    const changes = new Map<string, IDiagnosticCounts | undefined>();
+    this.pendingUris.forEach((uri, key) => {
+      changes.set(key, this.getFileCounts(uri, vscode.languages.getDiagnostics(uri)));
+    });
+    this.pendingUris.clear();
+
+    const change = this.state.update(changes);
+    if (change) {
+      this.emitter.fire(change);
+    }
+  }
+
+  /**
+   * Count the diagnostics of a file
+   * @returns The counts, or undefined when the file is not in the workspace
+   */
+  private getFileCounts(
+    uri: vscode.Uri,
+    diagnostics: readonly vscode.Diagnostic[]
+  ): IDiagnosticCounts | undefined {
+    return vscode.workspace.getWorkspaceFolder(uri) ? countDiagnostics(diagnostics) : undefined;
+  }
+
+  /**
+   * Cleanup resources
+   */
+  public dispose(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.emitter.dispose();
+  }
+}
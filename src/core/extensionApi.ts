@@ -0,0 +1,348 @@
+/**
+ * Public API of Kubito for other extensions
+ *
+ * Returned by `activate()`, so other extensions can get it with
+ * `vscode.extensions.getExtension('Kubit.vscode-kubito')?.exports`.
+ * Features:
+ * - `say` and `react` to make Kubito talk
+ * - Message providers asked for a message from time to time
+ * - `onDidInteract` to follow clicks, drags, throws and speech bubbles
+ * - A user setting to turn the API off and a rate limit shared by all callers, with a smaller
+ *   limit per caller and per provider so no extension can take the whole limit
+ */
+
+import * as vscode from 'vscode';
+import { t } from '../localization';
+import { IMessage, WebviewInteraction } from '../webview/protocol';
+import { RateLimiter } from './rateLimiter';
+
+/**
+ * Version of the API, increased on incompatible changes
+ */
+export const KUBITO_API_VERSION = 1;
+
+/**
+ * Message another extension wants Kubito to say
+ */
+export interface IKubitoApiMessage {
+  readonly type?: 'text' | 'emoji'; // Defaults to text
+  readonly content: string;
+}
+
+/**
+ * Emotions Kubito can react with
+ */
+export type KubitoEmotion =
+  | 'celebrate'
+  | 'happy'
+  | 'love'
+  | 'sad'
+  | 'surprised'
+  | 'thinking'
+  | 'sleepy';
+
+/**
+ * User interaction with Kubito
+ */
+export type KubitoInteraction = WebviewInteraction;
+
+/**
+ * Source of messages Kubito asks for from time to time
+ */
+export interface IKubitoMessageProvider {
+  provideMessage():
+    | string
+    | IKubitoApiMessage
+    | undefined
+    | PromiseLike<string | IKubitoApiMessage | undefined>;
+}
+
+/**
+ * API returned by `activate()`
+ */
+export interface IKubitoApi {
+  readonly version: number;
+  /**
+   * Make Kubito say something
+   * @param callerId - Id of the calling extension, so it cannot take the limit shared by all
+   * extensions for itself (callers without an id share one caller limit)
+   * @returns Whether the message was shown; false when the API is turned off, the message
+   * is empty, the rate limit was reached or Kubito cannot talk right now (hidden or focus mode)
+   */
+  say(message: string | IKubitoApiMessage, callerId?: string): boolean;
+  /**
+   * Make Kubito react with an emotion, with the same limits as `say`
+   */
+  react(emotion: KubitoEmotion, callerId?: string): boolean;
+  /**
+   * Register a provider asked for a message every few minutes, with its own rate limit
+   */
+  registerMessageProvider(provider: IKubitoMessageProvider): vscode.Disposable;
+  /**
+   * Fired when the user interacts with Kubito or a speech bubble is shown or closed
+   */
+  readonly onDidInteract: vscode.Event<KubitoInteraction>;
+}
+
+/**
+ * What the API needs from the extension
+ */
+export interface IKubitoApiHost {
+  canShowMessage(): boolean; // Whether Kubito can talk right now (visible)
+  holdBack(): boolean; // Whether focus mode holds the message back, counting it for its summary
+  showMessage(message: IMessage): void;
+  readonly onDidInteract: vscode.Event<WebviewInteraction>;
+}
+
+/**
+ * API settings read from the configuration
+ */
+export interface IExtensionApiSettings {
+  enabled: boolean;
+  messagesPerMinute: number;
+}
+
+/**
+ * Read API settings from the configuration
+ */
+export function getExtensionApiSettings(): IExtensionApiSettings {
+  const config = vscode.workspace.getConfiguration('kubito.extensionApi');
+
+  return {
+    enabled: config.get<boolean>('enabled', true),
+    messagesPerMinute: config.get<number>('messagesPerMinute', 3)
+  };
+}
+
+/**
+ * Messages shown for each emotion
+ */
+const EMOTION_MESSAGES: Record<KubitoEmotion, () => IMessage> = {
+  celebrate: () => ({ type: 'emoji', content: '🎉' }),
+  happy: () => ({ type: 'emoji', content: '😄' }),
+  love: () => ({ type: 'image', content: 'kubit-love', alt: t('messages.kubitLove') }),
+  sad: () => ({ type: 'emoji', content: '😢' }),
+  surprised: () => ({ type: 'emoji', content: '😮' }),
+  thinking: () => ({ type: 'emoji', content: '🤔' }),
+  sleepy: () => ({ type: 'text', content: t('messages.sleeping') })
+};
+
+/**
+ * Longest text other extensions can show
+ */
+const MAX_MESSAGE_LENGTH = 140;
+
+/**
+ * Turn a message from another extension into a speech bubble message
+ * @param message - Text or message object, checked at runtime since callers are not typed
+ * @returns The message, or undefined when it is empty or malformed
+ */
+export function toApiMessage(message: unknown): IMessage | undefined {
+  const { type, content } =
+    typeof message === 'string'
+      ? { type: 'text', content: message }
+      : ((message ?? {}) as { type?: unknown; content?: unknown });
+
+  if (typeof content !== 'string' || !content.trim()) {
+    return undefined;
+  }
+  if (type !== undefined && type !== 'text' && type !== 'emoji') {
+    return undefined;
+  }
+
+  const text = content.trim();
+  return {
+    type: type ?? 'text',
+    content: text.length > MAX_MESSAGE_LENGTH ? `${text.slice(0, MAX_MESSAGE_LENGTH - 1)}…` : text
+  };
+}
+
+/**
+ * Registered message provider and the rate limit of its messages
+ */
+interface IProviderRegistration {
+  provider: IKubitoMessageProvider;
+  rateLimiter: RateLimiter;
+}
+
+/**
+ * Get the messages per minute of a single caller or provider
+ * Half of the limit shared by all extensions, so one extension leaves room for the others
+ * @param messagesPerMinute - Messages per minute of all extensions together
+ */
+function getCallerMessagesPerMinute(messagesPerMinute: number): number {
+  return Math.max(1, Math.ceil(messagesPerMinute / 2));
+}
+
+/**
+ * Kubito API shared by all extensions, with a shared rate limit and one per caller id and
+ * per provider on top of it
+ */
+export class KubitoApi implements IKubitoApi, vscode.Disposable {
+  public readonly version = KUBITO_API_VERSION;
+  public readonly onDidInteract: vscode.Event<KubitoInteraction>;
+  private readonly providers: IProviderRegistration[] = [];
+  private nextProviderIndex = 0;
+  private providerTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly globalLimiter: RateLimiter; // Per minute, shared by all callers and providers
+  private readonly callerLimiters = new Map<string, RateLimiter>(); // Per caller id
+  private readonly MAX_CALLERS = 50; // Caller limits kept at most, oldest dropped first
+  private readonly WINDOW_MS = 60 * 1000;
+  private readonly MIN_INTERVAL_MS = 5 * 1000;
+  private readonly PROVIDER_INTERVAL_MS = 2 * 60 * 1000;
+
+  constructor(private readonly host: IKubitoApiHost) {
+    this.onDidInteract = host.onDidInteract;
+    this.globalLimiter = new RateLimiter(
+      getExtensionApiSettings().messagesPerMinute,
+      this.WINDOW_MS,
+      0
+    );
+  }
+
+  /**
+   * Make Kubito say a text or emoji
+   */
+  public say(message: string | IKubitoApiMessage, callerId?: string): boolean {
+    const apiMessage = toApiMessage(message);
+    return apiMessage !== undefined && this.show(apiMessage, this.getCallerLimiter(callerId));
+  }
+
+  /**
+   * Make Kubito react with an emotion; unknown emotions are ignored
+   */
+  public react(emotion: KubitoEmotion, callerId?: string): boolean {
+    const createMessage = EMOTION_MESSAGES[emotion] as (() => IMessage) | undefined;
+    return (
+      createMessage !== undefined && this.show(createMessage(), this.getCallerLimiter(callerId))
+    );
+  }
+
+  /**
+   * Register a message provider; disposing it stops asking it for messages
+   */
+  public registerMessageProvider(provider: IKubitoMessageProvider): vscode.Disposable {
+    const registration: IProviderRegistration = { provider, rateLimiter: this.createLimiter() };
+    this.providers.push(registration);
+    if (!this.providerTimer) {
+      this.providerTimer = setInterval(() => void this.askProvider(), this.PROVIDER_INTERVAL_MS);
+    }
+
+    return new vscode.Disposable(() => {
+      const index = this.providers.indexOf(registration);
+      if (index !== -1) {
+        this.providers.splice(index, 1);
+      }
+      if (this.providers.length === 0) {
+        this.stopProviderTimer();
+      }
+    });
+  }
+
+  /**
+   * Show a message if the API is turned on, Kubito can talk and both rate limits allow it
+   * Focus mode is only asked for messages the limits allow, so its summary counts messages
+   * that would have been shown; the limits are only used up by messages actually shown
+   * @param message - Message to show
+   * @param rateLimiter - Limit of the caller or provider
+   */
+  private show(message: IMessage, rateLimiter: RateLimiter): boolean {
+    const settings = getExtensionApiSettings();
+    if (!settings.enabled || !this.host.canShowMessage()) {
+      return false;
+    }
+
+    this.globalLimiter.setMaxEvents(settings.messagesPerMinute);
+    rateLimiter.setMaxEvents(getCallerMessagesPerMinute(settings.messagesPerMinute));
+    if (!this.globalLimiter.canAcquire() || !rateLimiter.canAcquire() || this.host.holdBack()) {
+      return false;
+    }
+
+    this.globalLimiter.tryAcquire();
+    rateLimiter.tryAcquire();
+    this.host.showMessage(message);
+    return true;
+  }
+
+  /**
+   * Get the rate limit of a caller id, created on first use
+   * Limits without messages in the window are dropped first, so ids used once (or made up
+   * on every call) do not pile up
+   */
+  private getCallerLimiter(callerId: string = ''): RateLimiter {
+    let rateLimiter = this.callerLimiters.get(callerId);
+    if (rateLimiter) {
+      return rateLimiter;
+    }
+
+    this.callerLimiters.forEach((limiter, id) => {
+      if (limiter.isIdle()) {
+        this.callerLimiters.delete(id);
+      }
+    });
+    const [oldestId] = this.callerLimiters.keys();
+    if (oldestId !== undefined && this.callerLimiters.size >= this.MAX_CALLERS) {
+      this.callerLimiters.delete(oldestId);
+    }
+
+    rateLimiter = this.createLimiter();
+    this.callerLimiters.set(callerId, rateLimiter);
+    return rateLimiter;
+  }
+
+  /**
+   * Create the rate limit of a caller or provider
+   */
+  private createLimiter(): RateLimiter {
+    return new RateLimiter(
+      getCallerMessagesPerMinute(getExtensionApiSettings().messagesPerMinute),
+      this.WINDOW_MS,
+      this.MIN_INTERVAL_MS
+    );
+  }
+
+  /**
+   * Ask the next provider for a message, taking turns so every provider gets a chance
+   * Errors of providers are ignored, they must not break Kubito
+   */
+  private async askProvider(): Promise<void> {
+    if (this.providers.length === 0 || !getExtensionApiSettings().enabled) {
+      return;
+    }
+
+    const registration = this.providers[this.nextProviderIndex % this.providers.length];
+    this.nextProviderIndex++;
+    if (!registration) {
+      return;
+    }
+
+    try {
+      const message = await registration.provider.provideMessage();
+      const apiMessage = message !== undefined ? toApiMessage(message) : undefined;
+      if (apiMessage) {
+        this.show(apiMessage, registration.rateLimiter);
+      }
+    } catch {
+      // A failing provider simply has nothing to say this time
+    }
+  }
+
+  /**
+   * Stop asking providers for messages
+   */
+  private stopProviderTimer(): void {
+    if (this.providerTimer) {
+      clearInterval(this.providerTimer);
+      this.providerTimer = null;
+    }
+  }
+
+  /**
+   * Cleanup resources
+   */
+  public dispose(): void {
+    this.stopProviderTimer();
+    this.providers.length = 0;
+    this.callerLimiters.clear();
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Focus Mode for Kubito
+ *
+ * Silences Kubito while the user needs to concentrate (demos, pairing, debugging).
+ * Features:
+ * - Manual toggle for a chosen duration or until turned off
+ * - Optional automatic activation in Zen Mode and during debug sessions
+ * - Status bar toggle
+ * - Counts what was held back so a single summary can be shown afterwards
+ */
+
+import * as vscode from 'vscode';
+import { t } from '../localization';
+
+/**
+ * Reasons focus mode can be active for
+ */
+export type FocusReason = 'manual' | 'zenMode' | 'debug';
+
+/**
+ * Kinds of messages held back while focus mode is active
+ */
+export type DeferredKind = 'reaction' | 'reminder' | 'metrics';
+
+/**
+ * Count of held back messages per kind
+ */
+export type DeferredCounts = Record<DeferredKind, number>;
+
+/**
+ * Focus mode settings read from the user configuration
+ */
+export interface IFocusModeSettings {
+  autoEnableInZenMode: boolean;
+  autoEnableWhileDebugging: boolean;
+  showStatusBarItem: boolean;
+}
+
+/**
+ * Callbacks fired by focus mode
+ */
+export interface IFocusModeCallbacks {
+  onChange(active: boolean): void; // Focus mode was turned on or off
+  onEnd(deferred: DeferredCounts): void; // Focus mode ended, with what was held back
+}
+
+/**
+ * Read focus mode settings from the configuration
+ */
+export function getFocusModeSettings(): IFocusModeSettings {
+  const config = vscode.workspace.getConfiguration('kubito.focusMode');
+
+  return {
+    autoEnableInZenMode: config.get<boolean>('autoEnableInZenMode', false),
+    autoEnableWhileDebugging: config.get<boolean>('autoEnableWhileDebugging', false),
+    showStatusBarItem: config.get<boolean>('showStatusBarItem', true)
+  };
+}
+
+/**
+ * Create an empty deferred message count
+ */
+function createDeferredCounts(): DeferredCounts {
+  return { reaction: 0, reminder: 0, metrics: 0 };
+}
+
+/**
+ * Tracks whether Kubito should stay quiet and what was held back meanwhile
+ */
+export class FocusMode {
+  private manualActive = false;
+  private manualUntil: Date | null = null; // null while manual focus has no end time
+  private manualTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly autoReasons = new Set<Exclude<FocusReason, 'manual'>>();
+  private autoSuppressed = false; // Turned off by the user while an automatic reason applies
+  private readonly debugSessions = new Set<string>();
+  private deferred: DeferredCounts = createDeferredCounts();
+  private active = false;
+  private settings: IFocusModeSettings;
+  private readonly statusBarItem: vscode.StatusBarItem;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly callbacks: IFocusModeCallbacks) {
+    this.settings = getFocusModeSettings();
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+    this.statusBarItem.name = 'Kubito Focus Mode';
+    this.statusBarItem.command = 'kubito.toggleFocusMode';
+
+    this.disposables.push(
+      vscode.debug.onDidStartDebugSession(session => {
+        this.debugSessions.add(session.id);
+        this.setAutoReason('debug', true);
+      }),
+      vscode.debug.onDidTerminateDebugSession(session => {
+        this.debugSessions.delete(session.id);
+        if (this.debugSessions.size === 0) {
+          this.setAutoReason('debug', false);
+        }
+      })
+    );
+
+    this.updateStatusBar();
+  }
+
+  /**
+   * Turn focus mode on
+   * @param minutes - How long to stay focused, until turned off when omitted
+   */
+  public enable(minutes?: number): void {
+    this.clearManualTimer();
+    this.manualActive = true;
+    this.manualUntil = minutes ? new Date(Date.now() + minutes * 60 * 1000) : null;
+
+    if (minutes) {
+      this.manualTimer = setTimeout(() => this.endManualFocus(), minutes * 60 * 1000);
+    }
+
+    this.update();
+  }
+
+  /**
+   * Turn focus mode off, including automatic activation until its reason ends
+   */
+  public disable(): void {
+    this.autoSuppressed = this.autoReasons.size > 0;
+    this.endManualFocus();
+  }
+
+  /**
+   * Whether Kubito should currently stay quiet
+   */
+  public isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Hold back a message if focus mode is active
+   * @param kind - Kind of message that would be shown
+   * @returns Whether the message was held back
+   */
+  public defer(kind: DeferredKind): boolean {
+    if (!this.active) {
+      return false;
+    }
+
+    this.deferred[kind]++;
+    return true;
+  }
+
+  /**
+   * Record that an automatic reason started or ended
+   * Starting reasons are ignored unless the user opted in
+   * @param reason - The automatic reason
+   * @param applies - Whether the reason currently applies
+   */
+  public setAutoReason(reason: Exclude<FocusReason, 'manual'>, applies: boolean): void {
+    const optedIn =
+      reason === 'zenMode'
+        ? this.settings.autoEnableInZenMode
+        : this.settings.autoEnableWhileDebugging;
+
+    if (applies && optedIn) {
+      this.autoReasons.add(reason);
+    } else if (!applies) {
+      this.autoReasons.delete(reason);
+    }
+
+    if (this.autoReasons.size === 0) {
+      this.autoSuppressed = false;
+    }
+
+    this.update();
+  }
+
+  /**
+   * Render the status bar toggle again in the current language
+   */
+  public updateTranslations(): void {
+    this.updateStatusBar();
+  }
+
+  /**
+   * Reload settings
+   */
+  public updateConfiguration(): void {
+    this.settings = getFocusModeSettings();
+
+    if (!this.settings.autoEnableInZenMode) {
+      this.autoReasons.delete('zenMode');
+    }
+    if (!this.settings.autoEnableWhileDebugging) {
+      this.autoReasons.delete('debug');
+    } else if (this.debugSessions.size > 0) {
+      this.autoReasons.add('debug');
+    }
+
+    this.update();
+  }
+
+  /**
+   * Recompute the active state and notify on changes
+   */
+  private update(): void {
+    const active = this.manualActive || (this.autoReasons.size > 0 && !this.autoSuppressed);
+
+    if (active !== this.active) {
+      this.active = active;
+      this.callbacks.onChange(active);
+
+      if (!active) {
+        const deferred = this.deferred;
+        this.deferred = createDeferredCounts();
+        this.callbacks.onEnd(deferred);
+      }
+    }
+
+    this.updateStatusBar();
+  }
+
+  /**
+   * End manually enabled focus; automatic reasons keep applying
+   */
+  private endManualFocus(): void {
+    this.clearManualTimer();
+    this.manualActive = false;
+    this.manualUntil = null;
+    this.update();
+  }
+
+  /**
+   * Cancel the manual focus end timer
+   */
+  private clearManualTimer(): void {
+    if (this.manualTimer) {
+      clearTimeout(this.manualTimer);
+      this.manualTimer = null;
+    }
+  }
+
+  /**
+   * Render the toggle in the status bar
+   */
+  private updateStatusBar(): void {
+    if (!this.settings.showStatusBarItem) {
+      this.statusBarItem.hide();
+      return;
+    }
+
+    if (!this.active) {
+      this.statusBarItem.text = '$(bell)';
+      this.statusBarItem.tooltip = t('focusMode.tooltipOff');
+    } else {
+      this.statusBarItem.text = `$(bell-slash) ${t('focusMode.statusBarOn')}`;
+      this.statusBarItem.tooltip = this.manualUntil
+        ? t('focusMode.tooltipOnUntil', { time: this.manualUntil })
+        : t('focusMode.tooltipOn');
+    }
+
+    this.statusBarItem.show();
+  }
+
+  /**
+   * Cleanup resources
+   */
+  public dispose(): void {
+    this.clearManualTimer();
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.statusBarItem.dispose();
+  }
+}
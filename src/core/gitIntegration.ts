@@ -0,0 +1,556 @@
+/**
+ * Git integration for Kubito
+ *
+ * Tells Git operations apart with the built-in Git extension API, by comparing
+ * repository states before and after each change.
+ * Features:
+ * - Commits, pushes, pulls, branch switches, merges, rebases and stashes
+ * - Unmerged paths left by merges, rebases and stash pops with conflicts
+ * - Checkouts of the same branch, resets, amends and fetches are ignored
+ * - Every repository the Git extension opens, including worktrees and submodules
+ * - Checked-out branch of the active file and ticket IDs parsed from branch names
+ * - Stashes from the stash log of the git folder, also when `.git` is a link file
+ * - Falls back to watching `.git/logs` files while the Git extension is disabled
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * Subset of the Git extension API used by Kubito
+ * (see `extensions/git/src/api/git.d.ts` in the VS Code repository)
+ */
+interface IGitCommit {
+  readonly hash: string;
+  readonly parents: readonly string[];
+}
+
+interface IGitBranch {
+  readonly name?: string;
+  readonly commit?: string;
+  readonly upstream?: { readonly commit?: string };
+  readonly ahead?: number;
+  readonly behind?: number;
+}
+
+interface IGitChange {
+  readonly uri: vscode.Uri;
+}
+
+interface IGitRepositoryState {
+  readonly HEAD: IGitBranch | undefined;
+  readonly rebaseCommit: IGitCommit | undefined;
+  readonly mergeChanges: readonly IGitChange[]; // Unmerged paths
+  readonly onDidChange: vscode.Event<void>;
+}
+
+interface IGitRepository {
+  readonly rootUri: vscode.Uri;
+  readonly state: IGitRepositoryState;
+  getCommit(ref: string): Promise<IGitCommit>;
+}
+
+interface IGitApi {
+  readonly repositories: readonly IGitRepository[];
+  readonly onDidOpenRepository: vscode.Event<IGitRepository>;
+  readonly onDidCloseRepository: vscode.Event<IGitRepository>;
+}
+
+interface IGitExtension {
+  readonly enabled: boolean;
+  readonly onDidChangeEnablement: vscode.Event<boolean>;
+  getAPI(version: 1): IGitApi;
+}
+
+/**
+ * Git operations Kubito reacts to
+ */
+export type GitEvent =
+  | 'committed'
+  | 'pushed'
+  | 'pulled'
+  | 'branchSwitched'
+  | 'merged'
+  | 'rebased'
+  | 'stashed';
+
+/**
+ * Git operation and where it happened
+ */
+export interface IGitEventInfo {
+  readonly type: GitEvent;
+  readonly repository: vscode.Uri;
+  readonly branch?: string; // Current branch, unknown when detached or using the file watchers
+}
+
+/**
+ * State of a repository needed to tell operations apart
+ */
+export interface IGitSnapshot {
+  branch?: string;
+  commit?: string;
+  upstreamCommit?: string;
+  behind: number;
+  rebasing: boolean;
+}
+
+/**
+ * Default pattern of ticket IDs in branch names (e.g. `feature/ABC-123-login`)
+ */
+export const DEFAULT_TICKET_PATTERN = '[A-Z][A-Z0-9]+-\\d+';
+
+/**
+ * Read the ticket ID of a branch
+ * @param branch - Branch name
+ * @param pattern - Regular expression matching the ticket ID; its first group is used when it has one
+ * @returns The ticket ID, or undefined when nothing matches or the pattern is invalid
+ */
+export function parseTicketId(branch: string, pattern: string): string | undefined {
+  if (!pattern) {
+    return undefined;
+  }
+
+  try {
+    const match = new RegExp(pattern).exec(branch);
+    return (match?.[1] ?? match?.[0]) || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the git folder a `.git` file links to (worktrees and submodules)
+ * @param text - Content of the `.git` file, e.g. `gitdir: ../.git/modules/lib`
+ * @returns The path of the git folder, or undefined when the text is not a link
+ */
+export function parseGitDirLink(text: string): string | undefined {
+  return /^gitdir:[ \t]*(.+?)\s*$/m.exec(text)?.[1];
+}
+
+/**
+ * Resolve a path read from a Git file against the folder it is relative to
+ */
+function resolveGitPath(base: vscode.Uri, target: string): vscode.Uri {
+  return path.isAbsolute(target) ? vscode.Uri.file(target) : vscode.Uri.joinPath(base, target);
+}
+
+/**
+ * Read a text file, undefined when it does not exist or is a folder
+ */
+async function readTextFile(uri: vscode.Uri): Promise<string | undefined> {
+  try {
+    return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find the folder holding the stash log of a repository
+ * `.git` is a file linking to the git folder in submodules and worktrees; worktrees share
+ * the stashes of their main repository, found through the `commondir` file
+ * @param root - Root folder of the repository
+ */
+async function findStashLogFolder(root: vscode.Uri): Promise<vscode.Uri> {
+  const dotGit = vscode.Uri.joinPath(root, '.git');
+  const link = parseGitDirLink((await readTextFile(dotGit)) ?? '');
+  const gitDir = link ? resolveGitPath(root, link) : dotGit;
+  const commonDir = (await readTextFile(vscode.Uri.joinPath(gitDir, 'commondir')))?.trim();
+  const stashDir = commonDir ? resolveGitPath(gitDir, commonDir) : gitDir;
+  return vscode.Uri.joinPath(stashDir, 'logs', 'refs');
+}
+
+/**
+ * Take a snapshot of a repository state
+ */
+function takeSnapshot(state: IGitRepositoryState): IGitSnapshot {
+  const head = state.HEAD;
+
+  return {
+    ...(head?.name ? { branch: head.name } : {}),
+    ...(head?.commit ? { commit: head.commit } : {}),
+    ...(head?.upstream?.commit ? { upstreamCommit: head.upstream.commit } : {}),
+    behind: head?.behind ?? 0,
+    rebasing: state.rebaseCommit !== undefined
+  };
+}
+
+/**
+ * Tell which operation turned one repository state into the next
+ * @param previous - State before the change (taken before a rebase started, if any)
+ * @param current - State after the change
+ * @param parents - Parents of the current HEAD commit, when it moved on the same branch
+ * @returns The operation, or undefined for changes Kubito ignores (fetch, reset, amend...)
+ */
+export function classifyGitChange(
+  previous: IGitSnapshot,
+  current: IGitSnapshot,
+  parents: readonly string[] = []
+): GitEvent | undefined {
+  // Repository still loading, or no commit yet
+  if (!previous.commit || !current.commit) {
+    return undefined;
+  }
+
+  // A finished rebase moved HEAD; an aborted one left it where it was
+  if (previous.rebasing) {
+    return current.commit !== previous.commit ? 'rebased' : undefined;
+  }
+
+  if (previous.branch !== current.branch) {
+    return previous.branch && current.branch ? 'branchSwitched' : undefined;
+  }
+
+  const upstreamMoved = current.upstreamCommit !== previous.upstreamCommit;
+
+  // HEAD did not move: the upstream caught up with it after a push
+  if (current.commit === previous.commit) {
+    return upstreamMoved && current.upstreamCommit === current.commit ? 'pushed' : undefined;
+  }
+
+  const receivedCommits = upstreamMoved || previous.behind > 0;
+
+  // Fast-forward pull
+  if (receivedCommits && current.commit === current.upstreamCommit) {
+    return 'pulled';
+  }
+
+  if (parents.length > 1) {
+    return receivedCommits && parents.includes(current.upstreamCommit ?? '') ? 'pulled' : 'merged';
+  }
+
+  return parents[0] === previous.commit ? 'committed' : undefined;
+}
+
+/**
+ * Branch checked out in a repository
+ */
+export interface IRepositoryBranch {
+  repository: string; // Root URI of the repository
+  branch: string;
+}
+
+/**
+ * Repository followed by the integration
+ */
+interface ITrackedRepository {
+  snapshot: IGitSnapshot;
+  stashCount: number;
+  stashLog: vscode.Uri | undefined; // Known once the git folder is resolved
+  unmergedPaths: readonly vscode.Uri[];
+  pending: Promise<void>; // Changes are handled one at a time
+  readonly disposables: vscode.Disposable[];
+}
+
+/**
+ * Reports Git operations from the Git extension, or from file watchers without it
+ */
+export class GitIntegration implements vscode.Disposable {
+  private readonly emitter = new vscode.EventEmitter<IGitEventInfo>();
+  private readonly unmergedPathsEmitter = new vscode.EventEmitter<void>();
+  private readonly branchEmitter = new vscode.EventEmitter<void>();
+  private readonly repositories = new Map<string, ITrackedRepository>();
+  private readonly sourceDisposables: vscode.Disposable[] = []; // Git API or file watchers
+  private readonly disposables: vscode.Disposable[] = [];
+
+  /**
+   * Fired when a Git operation Kubito reacts to happened
+   */
+  public readonly onDidGitEvent = this.emitter.event;
+
+  /**
+   * Fired when the unmerged paths of a repository changed
+   * Never fired when using the file watchers, which cannot see them
+   */
+  public readonly onDidChangeUnmergedPaths = this.unmergedPathsEmitter.event;
+
+  /**
+   * Fired when the branch of a repository changed, or a repository was opened or closed
+   * Never fired when using the file watchers, which cannot see branches
+   */
+  public readonly onDidChangeBranch = this.branchEmitter.event;
+
+  /**
+   * Start following repositories
+   * Uses the Git extension while it is enabled, the `.git/logs` file watchers otherwise
+   */
+  public async start(): Promise<void> {
+    const git = await this.getGitExtension();
+    if (git) {
+      this.disposables.push(
+        git.onDidChangeEnablement(enabled => this.useGitApi(enabled ? git.getAPI(1) : undefined))
+      );
+    }
+    this.useGitApi(git?.enabled ? git.getAPI(1) : undefined);
+  }
+
+  /**
+   * Get the unmerged paths of all repositories
+   */
+  public getUnmergedPaths(): vscode.Uri[] {
+    return [...this.repositories.values()].flatMap(tracked => tracked.unmergedPaths);
+  }
+
+  /**
+   * Get the checked-out branch of the repository containing a file
+   * @param uri - File to look for, defaults to the active editor
+   * @returns The branch of the innermost repository containing the file, or of the first
+   * repository; undefined when detached or unknown
+   */
+  public getCurrentBranch(
+    uri: vscode.Uri | undefined = vscode.window.activeTextEditor?.document.uri
+  ): IRepositoryBranch | undefined {
+    const repositories = [...this.repositories.entries()];
+    const file = uri?.toString();
+    const [containing] = repositories
+      .filter(([root]) => file?.startsWith(`${root}/`))
+      .sort(([a], [b]) => b.length - a.length);
+
+    const [repository, tracked] = containing ?? repositories[0] ?? [];
+    const branch = tracked?.snapshot.branch;
+    return repository !== undefined && branch ? { repository, branch } : undefined;
+  }
+
+  /**
+   * Get the Git extension exports, if the extension is installed
+   */
+  private async getGitExtension(): Promise<IGitExtension | undefined> {
+    const extension = vscode.extensions.getExtension<IGitExtension>('vscode.git');
+    if (!extension) {
+      return undefined;
+    }
+
+    try {
+      return extension.isActive ? extension.exports : await extension.activate();
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Follow repositories with the Git extension API, or with the file watchers without it
+   * Called again whenever the Git extension gets enabled or disabled
+   * @param git - The Git extension API, undefined while the extension is disabled
+   */
+  private useGitApi(git: IGitApi | undefined): void {
+    this.sourceDisposables.splice(0).forEach(disposable => disposable.dispose());
+    [...this.repositories.keys()].forEach(key => this.closeRepository(key));
+
+    if (!git) {
+      this.watchGitLogs();
+      return;
+    }
+
+    git.repositories.forEach(repository => this.openRepository(repository));
+    this.sourceDisposables.push(
+      git.onDidOpenRepository(repository => this.openRepository(repository)),
+      git.onDidCloseRepository(repository => this.closeRepository(repository.rootUri.toString()))
+    );
+  }
+
+  /**
+   * Follow the state and stashes of a repository
+   */
+  private openRepository(repository: IGitRepository): void {
+    const key = repository.rootUri.toString();
+    if (this.repositories.has(key)) {
+      return;
+    }
+
+    const tracked: ITrackedRepository = {
+      snapshot: takeSnapshot(repository.state),
+      stashCount: 0,
+      stashLog: undefined,
+      unmergedPaths: [],
+      pending: Promise.resolve(),
+      disposables: []
+    };
+
+    tracked.disposables.push(
+      repository.state.onDidChange(() =>
+        this.enqueue(tracked, () => this.updateRepository(repository, tracked))
+      )
+    );
+    this.repositories.set(key, tracked);
+    this.updateUnmergedPaths(repository, tracked);
+    this.branchEmitter.fire();
+    this.enqueue(tracked, () => this.watchStashes(repository, tracked));
+  }
+
+  /**
+   * Handle a change of a repository once the previous ones are handled
+   */
+  private enqueue(tracked: ITrackedRepository, handle: () => Promise<void>): void {
+    tracked.pending = tracked.pending.then(handle, handle);
+  }
+
+  /**
+   * Find the stash log of a repository, count its entries and follow its changes
+   */
+  private async watchStashes(
+    repository: IGitRepository,
+    tracked: ITrackedRepository
+  ): Promise<void> {
+    const stashLogFolder = await findStashLogFolder(repository.rootUri);
+
+    // Closed while the git folder was resolved
+    if (this.repositories.get(repository.rootUri.toString()) !== tracked) {
+      return;
+    }
+
+    const stashWatcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(stashLogFolder, 'stash')
+    );
+    const update = (): void => this.enqueue(tracked, () => this.updateStashes(repository, tracked));
+    tracked.stashLog = vscode.Uri.joinPath(stashLogFolder, 'stash');
+    tracked.disposables.push(
+      stashWatcher,
+      stashWatcher.onDidCreate(update),
+      stashWatcher.onDidChange(update),
+      stashWatcher.onDidDelete(update)
+    );
+    tracked.stashCount = await this.countStashes(tracked);
+  }
+
+  /**
+   * Stop following a closed repository
+   * @param key - Root URI of the repository
+   */
+  private closeRepository(key: string): void {
+    const tracked = this.repositories.get(key);
+    if (!tracked) {
+      return;
+    }
+
+    tracked.disposables.forEach(disposable => disposable.dispose());
+    this.repositories.delete(key);
+    if (tracked.unmergedPaths.length > 0) {
+      this.unmergedPathsEmitter.fire();
+    }
+    this.branchEmitter.fire();
+  }
+
+  /**
+   * Report a change of the unmerged paths of a repository
+   */
+  private updateUnmergedPaths(repository: IGitRepository, tracked: ITrackedRepository): void {
+    const unmergedPaths = repository.state.mergeChanges.map(change => change.uri);
+    const previous = new Set(tracked.unmergedPaths.map(uri => uri.toString()));
+    const changed =
+      unmergedPaths.length !== previous.size ||
+      unmergedPaths.some(uri => !previous.has(uri.toString()));
+
+    tracked.unmergedPaths = unmergedPaths;
+    if (changed) {
+      this.unmergedPathsEmitter.fire();
+    }
+  }
+
+  /**
+   * Compare the new state of a repository with the previous one and report the operation
+   */
+  private async updateRepository(
+    repository: IGitRepository,
+    tracked: ITrackedRepository
+  ): Promise<void> {
+    this.updateUnmergedPaths(repository, tracked);
+
+    const previous = tracked.snapshot;
+    const current = takeSnapshot(repository.state);
+
+    // Keep the state from before the rebase until it finishes or is aborted
+    if (current.rebasing) {
+      tracked.snapshot = { ...previous, rebasing: true };
+      return;
+    }
+    tracked.snapshot = current;
+    if (current.branch !== previous.branch) {
+      this.branchEmitter.fire();
+    }
+
+    let parents: readonly string[] = [];
+    if (current.commit && current.commit !== previous.commit && !previous.rebasing) {
+      try {
+        parents = (await repository.getCommit(current.commit)).parents;
+      } catch {
+        parents = [];
+      }
+    }
+
+    const type = classifyGitChange(previous, current, parents);
+    if (type) {
+      this.fire(type, repository.rootUri, current.branch);
+    }
+  }
+
+  /**
+   * Report a stash when the stash log gained an entry
+   */
+  private async updateStashes(
+    repository: IGitRepository,
+    tracked: ITrackedRepository
+  ): Promise<void> {
+    const stashCount = await this.countStashes(tracked);
+    if (stashCount > tracked.stashCount) {
+      this.fire('stashed', repository.rootUri, tracked.snapshot.branch);
+    }
+    tracked.stashCount = stashCount;
+  }
+
+  /**
+   * Count the entries of the stash log of a repository
+   */
+  private async countStashes(tracked: ITrackedRepository): Promise<number> {
+    const log = tracked.stashLog ? await readTextFile(tracked.stashLog) : undefined;
+    return log ? log.split('\n').filter(Boolean).length : 0;
+  }
+
+  /**
+   * Fall back to guessing commits and pushes from Git log files
+   */
+  private watchGitLogs(): void {
+    // Detect successful commits - when Git log is updated
+    const logsWatcher = vscode.workspace.createFileSystemWatcher('**/.git/logs/HEAD');
+    // Detect push/pull operations - when remote ref logs change (more reliable)
+    const refsLogsWatcher = vscode.workspace.createFileSystemWatcher(
+      '**/.git/logs/refs/remotes/**'
+    );
+
+    this.sourceDisposables.push(
+      logsWatcher,
+      refsLogsWatcher,
+      logsWatcher.onDidChange(uri => this.fire('committed', getRepositoryRoot(uri))),
+      refsLogsWatcher.onDidChange(uri => this.fire('pushed', getRepositoryRoot(uri)))
+    );
+  }
+
+  /**
+   * Fire a Git event
+   */
+  private fire(type: GitEvent, repository: vscode.Uri, branch?: string): void {
+    this.emitter.fire({ type, repository, ...(branch ? { branch } : {}) });
+  }
+
+  /**
+   * Cleanup resources
+   */
+  public dispose(): void {
+    this.repositories.forEach(tracked =>
+      tracked.disposables.forEach(disposable => disposable.dispose())
+    );
+    this.repositories.clear();
+    this.sourceDisposables.forEach(disposable => disposable.dispose());
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.emitter.dispose();
+    this.unmergedPathsEmitter.dispose();
+    this.branchEmitter.dispose();
+  }
+}
+
+/**
+ * Get the repository folder of a file inside its `.git` folder
+ */
+function getRepositoryRoot(gitFile: vscode.Uri): vscode.Uri {
+  const gitFolderIndex = gitFile.path.lastIndexOf('/.git/');
+  return gitFile.with({ path: gitFile.path.slice(0, Math.max(0, gitFolderIndex)) || '/' });
+}
@@ -0,0 +1,218 @@
+/**
+ * Merge conflict tracker for Kubito
+ *
+ * Counts merge conflicts while a merge, rebase or stash pop is being resolved.
+ * Features:
+ * - Conflict markers in open unmerged files, one conflict per `<<<<<<<` ... `>>>>>>>` block
+ * - Unmerged paths from the Git integration, one conflict per file not opened yet
+ * - Markers in other files (docs, test fixtures, committed by mistake) are not counted
+ * - Found, progress and resolved events as the count goes up and down
+ */
+
+import * as vscode from 'vscode';
+import { GitIntegration } from './gitIntegration';
+
+/**
+ * How the number of conflicts changed
+ * - found: conflicts appeared while there were none
+ * - progress: some conflicts were resolved, others are left
+ * - resolved: the last conflict was resolved
+ */
+export type ConflictChangeKind = 'found' | 'progress' | 'resolved';
+
+/**
+ * Payload of a conflict change event
+ */
+export interface IConflictChange {
+  kind: ConflictChangeKind;
+  count: number; // Conflicts left
+}
+
+/**
+ * Count the conflict blocks in a document text
+ * @param text - Document text
+ * @returns Number of complete `<<<<<<<`, `=======`, `>>>>>>>` blocks
+ */
+export function countConflictMarkers(text: string): number {
+  let count = 0;
+  let section: 'none' | 'ours' | 'theirs' = 'none';
+
+  for (const line of text.split(/\r?\n/)) {
+    if (/^<{7}(?: |$)/.test(line)) {
+      section = 'ours';
+    } else if (section === 'ours' && /^={7}$/.test(line)) {
+      section = 'theirs';
+    } else if (section === 'theirs' && /^>{7}(?: |$)/.test(line)) {
+      count++;
+      section = 'none';
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Tell how the number of conflicts changed
+ * @param previous - Conflicts before the change
+ * @param current - Conflicts after the change
+ * @returns The change, or undefined when Kubito has nothing to say (same or more conflicts)
+ */
+export function classifyConflictChange(
+  previous: number,
+  current: number
+): ConflictChangeKind | undefined {
+  if (current === 0) {
+    return previous > 0 ? 'resolved' : undefined;
+  }
+  if (previous === 0) {
+    return 'found';
+  }
+  return current < previous ? 'progress' : undefined;
+}
+
+/**
+ * Follows conflict markers in documents and unmerged paths in repositories
+ */
+export class MergeConflictTracker implements vscode.Disposable {
+  private readonly documentConflicts = new Map<string, number>(); // Conflicts per scanned file
+  private conflictCount = 0;
+  private readonly scanTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly emitter = new vscode.EventEmitter<IConflictChange>();
+  private readonly SCAN_DELAY_MS = 500;
+
+  /**
+   * Fired when conflicts are found, partly resolved or all resolved
+   */
+  public readonly onDidChangeConflicts = this.emitter.event;
+
+  /**
+   * @param gitIntegration - Source of the unmerged paths
+   */
+  constructor(private readonly gitIntegration: GitIntegration) {}
+
+  /**
+   * Scan open unmerged documents and follow document and repository changes
+   */
+  public startListening(): void {
+    vscode.workspace.textDocuments.forEach(document => this.scanDocument(document));
+
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument(document => this.scanDocument(document)),
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleScan(event.document)),
+      vscode.workspace.onDidCloseTextDocument(document => this.forgetDocument(document)),
+      this.gitIntegration.onDidChangeUnmergedPaths(() => this.updateUnmergedFiles())
+    );
+  }
+
+  /**
+   * Scan a document again once the user stops typing
+   */
+  private scheduleScan(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    const timer = this.scanTimers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+    }
+
+    this.scanTimers.set(
+      key,
+      setTimeout(() => {
+        this.scanTimers.delete(key);
+        this.scanDocument(document);
+      }, this.SCAN_DELAY_MS)
+    );
+  }
+
+  /**
+   * Count the conflict markers of a document, then count conflicts again
+   */
+  private scanDocument(document: vscode.TextDocument): void {
+    this.readDocument(document);
+    this.update();
+  }
+
+  /**
+   * Store the conflict markers of an unmerged document, forget any other document
+   */
+  private readDocument(document: vscode.TextDocument): void {
+    if (document.uri.scheme !== 'file' || document.isClosed) {
+      return;
+    }
+
+    const key = document.uri.toString();
+    if (this.isUnmerged(key)) {
+      this.documentConflicts.set(key, countConflictMarkers(document.getText()));
+    } else {
+      this.documentConflicts.delete(key);
+    }
+  }
+
+  /**
+   * Forget a closed document, unless its file is still unmerged
+   * The last scan of an unmerged file is kept so a resolved but unstaged file
+   * does not count as a conflict again
+   */
+  private forgetDocument(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    const timer = this.scanTimers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      this.scanTimers.delete(key);
+    }
+
+    if (!this.isUnmerged(key)) {
+      this.documentConflicts.delete(key);
+      this.update();
+    }
+  }
+
+  /**
+   * Forget files that are no longer unmerged, scan open documents that became unmerged,
+   * then count again
+   */
+  private updateUnmergedFiles(): void {
+    [...this.documentConflicts.keys()]
+      .filter(key => !this.isUnmerged(key))
+      .forEach(key => this.documentConflicts.delete(key));
+    vscode.workspace.textDocuments
+      .filter(document => this.isUnmerged(document.uri.toString()))
+      .forEach(document => this.readDocument(document));
+    this.update();
+  }
+
+  /**
+   * Check whether a file is an unmerged path of a repository
+   */
+  private isUnmerged(key: string): boolean {
+    return this.gitIntegration.getUnmergedPaths().some(uri => uri.toString() === key);
+  }
+
+  /**
+   * Count conflicts again and report how the count changed
+   */
+  private update(): void {
+    let count = 0;
+    this.documentConflicts.forEach(conflicts => (count += conflicts));
+    this.gitIntegration
+      .getUnmergedPaths()
+      .filter(uri => !this.documentConflicts.has(uri.toString()))
+      .forEach(() => count++);
+
+    const kind = classifyConflictChange(this.conflictCount, count);
+    this.conflictCount = count;
+    if (kind) {
+      this.emitter.fire({ kind, count });
+    }
+  }
+
+  /**
+   * Cleanup resources
+   */
+  public dispose(): void {
+    this.scanTimers.forEach(timer => clearTimeout(timer));
+    this.scanTimers.clear();
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.emitter.dispose();
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Metrics Export for Kubito
+ *
+ * Converts the daily metrics history into CSV or JSON documents so coding time
+ * can be collected outside VS Code.
+ * Features:
+ * - Date range and workspace filtering
+ * - Derived per-day insights (lines/hour, score, main language)
+ * - File path, workspace and workspace name anonymization (enabled by default), hashed
+ *   with a secret salt so common names cannot be looked up in a dictionary
+ *
+ * The exported schema is documented in the README ("Exporting Metrics").
+ * Bump EXPORT_SCHEMA_VERSION whenever a field is added, removed or renamed.
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import * as path from 'path';
+import { IDailyMetrics } from './metricsHistory';
+import { calculateProductivityScore } from './productivity';
+
+/**
+ * Version of the exported document layout
+ */
+export const EXPORT_SCHEMA_VERSION = 2;
+
+/**
+ * Supported export formats
+ */
+export type ExportFormat = 'csv' | 'json';
+
+/**
+ * Options controlling which records are exported and how
+ */
+export interface IExportOptions {
+  from: string; // First date key (YYYY-MM-DD), inclusive
+  to: string; // Last date key (YYYY-MM-DD), inclusive
+  workspace?: string; // Workspace id to export, all workspaces when omitted
+  anonymize: boolean; // Replace paths and workspace names with stable hashes
+  salt: string; // Secret key of the hashes, generated once per install
+}
+
+/**
+ * One exported row: a day of metrics in a workspace
+ */
+export interface IExportRecord {
+  date: string;
+  workspace: string;
+  workspaceName: string;
+  activeMinutes: number;
+  sessionMinutes: number;
+  linesWritten: number;
+  linesDeleted: number;
+  filesModified: number;
+  keystrokes: number;
+  linesPerHour: number;
+  productivityScore: number;
+  mostActiveLanguage: string;
+  pomodorosCompleted: number;
+  languages: Record<string, number>;
+  files: string[];
+}
+
+/**
+ * Complete JSON export document
+ */
+export interface IExportDocument {
+  schemaVersion: number;
+  generatedAt: string;
+  from: string;
+  to: string;
+  anonymized: boolean;
+  records: IExportRecord[];
+}
+
+/**
+ * CSV columns, in order (list fields are flattened)
+ */
+const CSV_COLUMNS: (keyof IExportRecord)[] = [
+  'date',
+  'workspace',
+  'workspaceName',
+  'activeMinutes',
+  'sessionMinutes',
+  'linesWritten',
+  'linesDeleted',
+  'filesModified',
+  'keystrokes',
+  'linesPerHour',
+  'productivityScore',
+  'mostActiveLanguage',
+  'pomodorosCompleted',
+  'languages'
+];
+
+/**
+ * Generate a secret salt for anonymized exports
+ */
+export function createAnonymizationSalt(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Replace a path with a stable, non reversible identifier
+ * The file extension is kept so language breakdowns remain meaningful
+ * @param filePath - Path or URI to anonymize
+ * @param salt - Secret salt of the install
+ */
+export function anonymizePath(filePath: string, salt: string): string {
+  return `${anonymizeName(filePath, salt)}${path.extname(filePath)}`;
+}
+
+/**
+ * Replace a name with a stable, non reversible identifier
+ * Without the salt, hashes of common names could be reversed with a dictionary
+ * @param name - Name to anonymize (e.g. a workspace name, which often names the project)
+ * @param salt - Secret salt of the install
+ */
+export function anonymizeName(name: string, salt: string): string {
+  return createHmac('sha256', salt).update(name).digest('hex').slice(0, 12);
+}
+
+/**
+ * Build export records from the stored history
+ * @param history - Daily records from the history store
+ * @param options - Filtering and anonymization options
+ */
+export function buildExportRecords(
+  history: IDailyMetrics[],
+  options: IExportOptions
+): IExportRecord[] {
+  return history
+    .filter(
+      entry =>
+        entry.date >= options.from &&
+        entry.date <= options.to &&
+        (options.workspace === undefined || entry.workspace === options.workspace)
+    )
+    .map(entry => {
+      const activeHours = entry.activeTimeMs / (1000 * 60 * 60);
+      const mostActiveLanguage =
+        Object.entries(entry.languages).sort(([, a], [, b]) => b - a)[0]?.[0] || 'Unknown';
+
+      return {
+        date: entry.date,
+        workspace: options.anonymize
+          ? anonymizePath(entry.workspace, options.salt)
+          : entry.workspace,
+        workspaceName: options.anonymize
+          ? anonymizeName(entry.workspaceName, options.salt)
+          : entry.workspaceName,
+        activeMinutes: Math.round(entry.activeTimeMs / (1000 * 60)),
+        sessionMinutes: Math.round(entry.sessionTimeMs / (1000 * 60)),
+        linesWritten: entry.linesWritten,
+        linesDeleted: entry.linesDeleted,
+        filesModified: entry.filesModified.length,
+        keystrokes: entry.totalKeystrokes,
+        linesPerHour: activeHours > 0 ? Math.round(entry.linesWritten / activeHours) : 0,
+        productivityScore: calculateProductivityScore({
+          sessionTimeMs: entry.sessionTimeMs,
+          activeTimeMs: entry.activeTimeMs,
+          linesWritten: entry.linesWritten,
+          filesModified: entry.filesModified.length
+        }),
+        mostActiveLanguage,
+        pomodorosCompleted: entry.pomodorosCompleted,
+        languages: { ...entry.languages },
+        files: options.anonymize
+          ? entry.filesModified.map(file => anonymizePath(file, options.salt))
+          : [...entry.filesModified]
+      };
+    });
+}
+
+/**
+ * Serialize records as a JSON export document
+ */
+export function toJson(records: IExportRecord[], options: IExportOptions): string {
+  const document: IExportDocument = {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    from: options.from,
+    to: options.to,
+    anonymized: options.anonymize,
+    records
+  };
+
+  return JSON.stringify(document, null, 2) + '\n';
+}
+
+/**
+ * Serialize records as CSV (RFC 4180 quoting)
+ * Languages are written as "language:lines" pairs separated by semicolons
+ */
+export function toCsv(records: IExportRecord[]): string {
+  const rows = records.map(record =>
+    CSV_COLUMNS.map(column => {
+      const value = record[column];
+      if (column === 'languages') {
+        return escapeCsv(
+          Object.entries(record.languages)
+            .map(([language, lines]) => `${language}:${lines}`)
+            .join(';')
+        );
+      }
+      return escapeCsv(String(value));
+    }).join(',')
+  );
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Quote a CSV value when it contains separators, quotes or line breaks
+ */
+function escapeCsv(value: string): string {
+  if (/[",\n\r]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
@@ -0,0 +1,488 @@
+/**
+ * Metrics History Store for Kubito
+ *
+ * Persists daily coding metrics in the extension's global state so productivity
+ * stats survive webview reloads and VS Code restarts.
+ * Features:
+ * - One record per day and workspace, each under its own global state key so
+ *   windows flushing at the same time never overwrite each other's records
+ * - Incremental updates (deltas) merged into the stored record
+ * - Aggregated summaries for today, yesterday and the last 7/30 days
+ * - Time, lines and files per Git branch of each repository
+ * - Automatic pruning of old records
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * Metrics stored for a single day in a single workspace
+ */
+export interface IDailyMetrics {
+  date: string; // Local date in YYYY-MM-DD format
+  workspace: string; // Workspace identifier (folder or workspace file path)
+  workspaceName: string; // Human readable workspace name
+  linesWritten: number;
+  linesDeleted: number;
+  filesModified: string[];
+  totalKeystrokes: number;
+  activeTimeMs: number;
+  sessionTimeMs: number; // Time Kubito was tracking, active or not
+  languages: Record<string, number>; // Language -> lines written
+  pomodorosCompleted: number;
+  branches: Record<string, IBranchMetrics>; // Branch key (see getBranchKey) -> metrics
+}
+
+/**
+ * Metrics collected while a Git branch was checked out
+ */
+export interface IBranchMetrics {
+  branch: string;
+  repository: string; // Root URI of the repository, empty in records of older versions
+  activeTimeMs: number;
+  linesWritten: number;
+  linesDeleted: number;
+  filesModified: string[];
+}
+
+/**
+ * Incremental metrics to be merged into a daily record
+ */
+export type IMetricsDelta = Omit<IDailyMetrics, 'date' | 'workspace' | 'workspaceName'>;
+
+/**
+ * Periods available for history summaries
+ */
+export type MetricsPeriod = 'today' | 'yesterday' | 'last7Days' | 'last30Days';
+
+/**
+ * Aggregated metrics for a period
+ */
+export interface IMetricsSummary {
+  period: MetricsPeriod;
+  daysActive: number;
+  linesWritten: number;
+  linesDeleted: number;
+  filesModified: number;
+  activeTimeMs: number;
+  sessionTimeMs: number;
+  languages: Record<string, number>;
+  pomodorosCompleted: number;
+}
+
+/**
+ * Aggregated metrics of a branch for a period
+ */
+export interface IBranchSummary {
+  branch: string;
+  repository: string; // Repository folder name, or the workspace name for older records
+  activeTimeMs: number;
+  linesWritten: number;
+  linesDeleted: number;
+  filesModified: number;
+}
+
+/**
+ * Identifies the workspace metrics are attributed to
+ */
+export interface IWorkspaceInfo {
+  id: string;
+  name: string;
+}
+
+/**
+ * Prefix of the global state keys of daily records (`kubito.metrics.<date>.<workspace>`)
+ */
+const RECORD_KEY_PREFIX = 'kubito.metrics.';
+
+/**
+ * Global state key of the single array older versions stored the whole history in
+ */
+const LEGACY_HISTORY_STATE_KEY = 'kubito.metricsHistory';
+
+/**
+ * Number of days kept in the history before pruning
+ */
+const HISTORY_RETENTION_DAYS = 90;
+
+/**
+ * Get the local date key (YYYY-MM-DD) for a date
+ * @param date - The date to convert
+ * @returns The date key
+ */
+export function getDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Check that a value is an existing calendar day in the YYYY-MM-DD format
+ * The value must read back unchanged, so rolled over days like 2025-02-30 are rejected
+ * @param value - Value to check
+ */
+export function isDateKey(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return false;
+  }
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return getDateKey(date) === value;
+}
+
+/**
+ * Get the identifier and display name of the current workspace
+ * @returns Workspace info, or a shared entry when no folder is open
+ */
+export function getCurrentWorkspace(): IWorkspaceInfo {
+  const workspaceFile = vscode.workspace.workspaceFile;
+  const firstFolder = vscode.workspace.workspaceFolders?.[0];
+
+  if (workspaceFile && workspaceFile.scheme === 'file') {
+    return { id: workspaceFile.fsPath, name: vscode.workspace.name ?? workspaceFile.fsPath };
+  }
+
+  if (firstFolder) {
+    return { id: firstFolder.uri.toString(), name: vscode.workspace.name ?? firstFolder.name };
+  }
+
+  return { id: 'no-workspace', name: 'No workspace' };
+}
+
+/**
+ * Get the global state key of the record of a day and workspace
+ * @param date - Date key (YYYY-MM-DD)
+ * @param workspace - Workspace identifier
+ */
+export function getRecordKey(date: string, workspace: string): string {
+  return `${RECORD_KEY_PREFIX}${date}.${encodeURIComponent(workspace)}`;
+}
+
+/**
+ * Get the key of a branch in the branches of a daily record
+ * Repository URIs encode `#`, so the key of each repository and branch is unique
+ * @param repository - Root URI of the repository
+ * @param branch - Branch name
+ */
+export function getBranchKey(repository: string, branch: string): string {
+  return `${repository}#${branch}`;
+}
+
+/**
+ * Fill in fields that records written by older versions may miss
+ * Older versions keyed branches by name only, without their repository
+ */
+function normalizeRecord(entry: IDailyMetrics): IDailyMetrics {
+  const branches: Record<string, IBranchMetrics> = {};
+  Object.entries(entry.branches ?? {}).forEach(([key, metrics]) => {
+    branches[key] = {
+      ...metrics,
+      branch: metrics.branch ?? key,
+      repository: metrics.repository ?? ''
+    };
+  });
+
+  return {
+    ...entry,
+    pomodorosCompleted: entry.pomodorosCompleted ?? 0,
+    branches
+  };
+}
+
+/**
+ * Create a delta with no activity
+ */
+export function createEmptyDelta(): IMetricsDelta {
+  return {
+    linesWritten: 0,
+    linesDeleted: 0,
+    filesModified: [],
+    totalKeystrokes: 0,
+    activeTimeMs: 0,
+    sessionTimeMs: 0,
+    languages: {},
+    pomodorosCompleted: 0,
+    branches: {}
+  };
+}
+
+/**
+ * Persists and aggregates daily coding metrics
+ */
+export class MetricsHistory {
+  constructor(private readonly storage: vscode.Memento) {}
+
+  /**
+   * Merge a metrics delta into the record for the given day and workspace
+   * @param date - Date key (YYYY-MM-DD) the delta belongs to
+   * @param workspace - Workspace the delta belongs to
+   * @param delta - Metrics accumulated since the last update
+   * @param now - Reference date for pruning (defaults to the current date)
+   */
+  public async record(
+    date: string,
+    workspace: IWorkspaceInfo,
+    delta: IMetricsDelta,
+    now: Date = new Date()
+  ): Promise<void> {
+    await this.migrateLegacyHistory();
+
+    // Only this record is read and written, other days and workspaces are left alone
+    const key = getRecordKey(date, workspace.id);
+    const stored = this.storage.get<IDailyMetrics>(key);
+
+    const existing: IDailyMetrics = stored
+      ? normalizeRecord(stored)
+      : {
+          date,
+          workspace: workspace.id,
+          workspaceName: workspace.name,
+          linesWritten: 0,
+          linesDeleted: 0,
+          filesModified: [],
+          totalKeystrokes: 0,
+          activeTimeMs: 0,
+          sessionTimeMs: 0,
+          languages: {},
+          pomodorosCompleted: 0,
+          branches: {}
+        };
+
+    const languages = { ...existing.languages };
+    Object.entries(delta.languages).forEach(([language, lines]) => {
+      languages[language] = (languages[language] || 0) + lines;
+    });
+
+    const branches = { ...existing.branches };
+    Object.entries(delta.branches).forEach(([key, metrics]) => {
+      const previous = branches[key];
+      branches[key] = {
+        branch: metrics.branch,
+        repository: metrics.repository,
+        activeTimeMs: (previous?.activeTimeMs ?? 0) + metrics.activeTimeMs,
+        linesWritten: (previous?.linesWritten ?? 0) + metrics.linesWritten,
+        linesDeleted: (previous?.linesDeleted ?? 0) + metrics.linesDeleted,
+        filesModified: Array.from(
+          new Set([...(previous?.filesModified ?? []), ...metrics.filesModified])
+        )
+      };
+    });
+
+    const updated: IDailyMetrics = {
+      ...existing,
+      workspaceName: workspace.name,
+      linesWritten: existing.linesWritten + delta.linesWritten,
+      linesDeleted: existing.linesDeleted + delta.linesDeleted,
+      filesModified: Array.from(new Set([...existing.filesModified, ...delta.filesModified])),
+      totalKeystrokes: existing.totalKeystrokes + delta.totalKeystrokes,
+      activeTimeMs: existing.activeTimeMs + delta.activeTimeMs,
+      sessionTimeMs: existing.sessionTimeMs + delta.sessionTimeMs,
+      languages,
+      pomodorosCompleted: existing.pomodorosCompleted + delta.pomodorosCompleted,
+      branches
+    };
+
+    await this.storage.update(key, updated);
+    await this.prune(now);
+  }
+
+  /**
+   * Get all stored daily records, oldest first
+   */
+  public getAll(): IDailyMetrics[] {
+    const records = this.storage
+      .keys()
+      .filter(key => key.startsWith(RECORD_KEY_PREFIX))
+      .map(key => this.storage.get<IDailyMetrics>(key))
+      .filter((entry): entry is IDailyMetrics => entry !== undefined);
+
+    // Records of older versions not moved to their own keys yet
+    const keys = new Set(records.map(entry => getRecordKey(entry.date, entry.workspace)));
+    const legacy = this.storage
+      .get<IDailyMetrics[]>(LEGACY_HISTORY_STATE_KEY, [])
+      .filter(entry => !keys.has(getRecordKey(entry.date, entry.workspace)));
+
+    return [...records, ...legacy]
+      .map(normalizeRecord)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Get the daily records between two dates (inclusive)
+   * @param from - First date key to include
+   * @param to - Last date key to include
+   * @param workspace - Optional workspace id to filter by
+   */
+  public getRange(from: string, to: string, workspace?: string): IDailyMetrics[] {
+    return this.getAll().filter(
+      entry =>
+        entry.date >= from &&
+        entry.date <= to &&
+        (workspace === undefined || entry.workspace === workspace)
+    );
+  }
+
+  /**
+   * Aggregate the stored metrics for a period across all workspaces
+   * @param period - The period to summarize
+   * @param now - Reference date (defaults to the current date)
+   */
+  public summarize(period: MetricsPeriod, now: Date = new Date()): IMetricsSummary {
+    const { from, to } = getPeriodRange(period, now);
+    const entries = this.getRange(from, to);
+
+    const files = new Set<string>();
+    const days = new Set<string>();
+    const languages: Record<string, number> = {};
+
+    const summary: IMetricsSummary = {
+      period,
+      daysActive: 0,
+      linesWritten: 0,
+      linesDeleted: 0,
+      filesModified: 0,
+      activeTimeMs: 0,
+      sessionTimeMs: 0,
+      languages,
+      pomodorosCompleted: 0
+    };
+
+    entries.forEach(entry => {
+      summary.linesWritten += entry.linesWritten;
+      summary.linesDeleted += entry.linesDeleted;
+      summary.activeTimeMs += entry.activeTimeMs;
+      summary.sessionTimeMs += entry.sessionTimeMs;
+      summary.pomodorosCompleted += entry.pomodorosCompleted;
+      entry.filesModified.forEach(file => files.add(file));
+      Object.entries(entry.languages).forEach(([language, lines]) => {
+        languages[language] = (languages[language] || 0) + lines;
+      });
+
+      if (entry.activeTimeMs > 0 || entry.linesWritten > 0) {
+        days.add(entry.date);
+      }
+    });
+
+    summary.filesModified = files.size;
+    summary.daysActive = days.size;
+
+    return summary;
+  }
+
+  /**
+   * Aggregate the stored metrics of each branch for a period across all workspaces
+   * Branches are told apart by repository, so `main` of two projects stays two entries
+   * @param period - The period to summarize
+   * @param now - Reference date (defaults to the current date)
+   * @returns Branch summaries, most active first
+   */
+  public summarizeBranches(period: MetricsPeriod, now: Date = new Date()): IBranchSummary[] {
+    const { from, to } = getPeriodRange(period, now);
+    const summaries = new Map<string, IBranchSummary & { files: Set<string> }>();
+
+    this.getRange(from, to).forEach(entry => {
+      Object.values(entry.branches).forEach(metrics => {
+        // Older records do not know the repository, the workspace is the closest match
+        const key = getBranchKey(metrics.repository || entry.workspace, metrics.branch);
+        const summary = summaries.get(key) ?? {
+          branch: metrics.branch,
+          repository: metrics.repository
+            ? path.posix.basename(vscode.Uri.parse(metrics.repository).path)
+            : entry.workspaceName,
+          activeTimeMs: 0,
+          linesWritten: 0,
+          linesDeleted: 0,
+          filesModified: 0,
+          files: new Set<string>()
+        };
+
+        summary.activeTimeMs += metrics.activeTimeMs;
+        summary.linesWritten += metrics.linesWritten;
+        summary.linesDeleted += metrics.linesDeleted;
+        metrics.filesModified.forEach(file => summary.files.add(file));
+        summaries.set(key, summary);
+      });
+    });
+
+    return Array.from(summaries.values())
+      .map(({ files, ...summary }) => ({ ...summary, filesModified: files.size }))
+      .sort((a, b) => b.activeTimeMs - a.activeTimeMs);
+  }
+
+  /**
+   * Move the records of the single array used by older versions to their own keys
+   */
+  private async migrateLegacyHistory(): Promise<void> {
+    const legacy = this.storage.get<IDailyMetrics[]>(LEGACY_HISTORY_STATE_KEY);
+    if (!legacy) {
+      return;
+    }
+
+    for (const entry of legacy) {
+      const key = getRecordKey(entry.date, entry.workspace);
+      if (this.storage.get(key) === undefined) {
+        await this.storage.update(key, normalizeRecord(entry));
+      }
+    }
+    await this.storage.update(LEGACY_HISTORY_STATE_KEY, undefined);
+  }
+
+  /**
+   * Remove records older than the retention window
+   * @param now - Reference date
+   */
+  private async prune(now: Date): Promise<void> {
+    const cutoff = new Date(now);
+    cutoff.setDate(cutoff.getDate() - HISTORY_RETENTION_DAYS);
+    const cutoffKey = getRecordKey(getDateKey(cutoff), '');
+
+    // Date keys sort chronologically, so older records have smaller keys
+    const expired = this.storage
+      .keys()
+      .filter(key => key.startsWith(RECORD_KEY_PREFIX) && key < cutoffKey);
+    for (const key of expired) {
+      await this.storage.update(key, undefined);
+    }
+  }
+}
+
+/**
+ * Get the first and last date keys covered by a period
+ * @param period - The period to resolve
+ * @param now - Reference date
+ */
+export function getPeriodRange(period: MetricsPeriod, now: Date): { from: string; to: string } {
+  const daysBack = (days: number): string => {
+    const date = new Date(now);
+    date.setDate(date.getDate() - days);
+    return getDateKey(date);
+  };
+
+  switch (period) {
+    case 'today':
+      return { from: daysBack(0), to: daysBack(0) };
+    case 'yesterday':
+      return { from: daysBack(1), to: daysBack(1) };
+    case 'last7Days':
+      return { from: daysBack(6), to: daysBack(0) };
+    case 'last30Days':
+      return { from: daysBack(29), to: daysBack(0) };
+  }
+}
+
+/**
+ * Get the date keys for the last days, oldest first
+ * @param count - Number of days, including today
+ * @param now - Reference date
+ */
+export function getRecentDateKeys(count: number, now: Date = new Date()): string[] {
+  const keys: string[] = [];
+  for (let daysBack = count - 1; daysBack >= 0; daysBack--) {
+    const date = new Date(now);
+    date.setDate(date.getDate() - daysBack);
+    keys.push(getDateKey(date));
+  }
+  return keys;
+}
@@ -0,0 +1,301 @@
+/**
+ * Pomodoro Timer for Kubito
+ *
+ * Runs work/break cycles and shows a countdown in the status bar.
+ * Features:
+ * - Configurable work, short break and long break lengths
+ * - Long break after a configurable number of work sessions
+ * - Start, pause/resume, skip and reset controls
+ * - Phase change callbacks so Kubito can announce them and rest during breaks
+ */
+
+import * as vscode from 'vscode';
+import { t } from '../localization';
+
+/**
+ * Pomodoro phases
+ */
+export type PomodoroPhase = 'work' | 'shortBreak' | 'longBreak';
+
+/**
+ * Timer status
+ */
+export type PomodoroStatus = 'idle' | 'running' | 'paused';
+
+/**
+ * Durations and cycle count read from the user settings
+ */
+export interface IPomodoroSettings {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  cyclesBeforeLongBreak: number;
+}
+
+/**
+ * Callbacks fired by the timer
+ */
+export interface IPomodoroCallbacks {
+  onPhaseStart(phase: PomodoroPhase, minutes: number): void; // A new phase started
+  onWorkCompleted(completedCount: number): void; // A work phase ran to the end (not skipped)
+  onStop(): void; // The timer was reset
+}
+
+/**
+ * Read Pomodoro settings from the configuration
+ */
+export function getPomodoroSettings(): IPomodoroSettings {
+  const config = vscode.workspace.getConfiguration('kubito.pomodoro');
+
+  return {
+    workMinutes: config.get<number>('workDuration', 25),
+    shortBreakMinutes: config.get<number>('shortBreakDuration', 5),
+    longBreakMinutes: config.get<number>('longBreakDuration', 15),
+    cyclesBeforeLongBreak: config.get<number>('cyclesBeforeLongBreak', 4)
+  };
+}
+
+/**
+ * Status bar icons per phase (the tooltip names the phase)
+ */
+const PHASE_ICONS: Record<PomodoroPhase, string> = {
+  work: '🍅',
+  shortBreak: '☕',
+  longBreak: '🌴'
+};
+
+/**
+ * Pomodoro timer with a status bar countdown
+ */
+export class PomodoroTimer {
+  private status: PomodoroStatus = 'idle';
+  private phase: PomodoroPhase = 'work';
+  private remainingMs = 0;
+  private phaseEndTime = 0;
+  private completedWorkSessions = 0; // Work phases that ran to the end
+  private endedWorkSessions = 0; // Work phases that ended, including skipped ones
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private settings: IPomodoroSettings;
+  private readonly statusBarItem: vscode.StatusBarItem;
+  private readonly TICK_MS = 1000;
+
+  constructor(private readonly callbacks: IPomodoroCallbacks) {
+    this.settings = getPomodoroSettings();
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+    this.statusBarItem.name = 'Kubito Pomodoro';
+  }
+
+  /**
+   * Start a new cycle, or resume a paused phase
+   */
+  public start(): void {
+    if (this.status === 'running') {
+      return;
+    }
+
+    if (this.status === 'paused') {
+      this.phaseEndTime = Date.now() + this.remainingMs;
+      this.status = 'running';
+      this.startTicking();
+      return;
+    }
+
+    this.beginPhase('work');
+  }
+
+  /**
+   * Pause the running phase, keeping the remaining time
+   */
+  public pause(): void {
+    if (this.status !== 'running') {
+      return;
+    }
+
+    this.remainingMs = Math.max(0, this.phaseEndTime - Date.now());
+    this.status = 'paused';
+    this.stopTicking();
+    this.updateStatusBar();
+  }
+
+  /**
+   * Skip to the next phase without counting the current one as completed
+   */
+  public skip(): void {
+    if (this.status === 'idle') {
+      return;
+    }
+
+    this.endPhase(false);
+  }
+
+  /**
+   * Stop the timer and reset the cycle count
+   */
+  public reset(): void {
+    const wasActive = this.status !== 'idle';
+
+    this.stopTicking();
+    this.status = 'idle';
+    this.phase = 'work';
+    this.remainingMs = 0;
+    this.completedWorkSessions = 0;
+    this.endedWorkSessions = 0;
+    this.statusBarItem.hide();
+
+    if (wasActive) {
+      this.callbacks.onStop();
+    }
+  }
+
+  /**
+   * Get the current status
+   */
+  public getStatus(): PomodoroStatus {
+    return this.status;
+  }
+
+  /**
+   * Get the current phase (meaningful only while not idle)
+   */
+  public getPhase(): PomodoroPhase {
+    return this.phase;
+  }
+
+  /**
+   * Whether a break phase is currently active
+   */
+  public isOnBreak(): boolean {
+    return this.status !== 'idle' && this.phase !== 'work';
+  }
+
+  /**
+   * Reload durations from settings
+   * The running phase keeps its length; new lengths apply from the next phase
+   */
+  public updateConfiguration(): void {
+    this.settings = getPomodoroSettings();
+  }
+
+  /**
+   * Start a phase with its full duration
+   */
+  private beginPhase(phase: PomodoroPhase): void {
+    const minutes = this.getPhaseMinutes(phase);
+
+    this.phase = phase;
+    this.status = 'running';
+    this.remainingMs = minutes * 60 * 1000;
+    this.phaseEndTime = Date.now() + this.remainingMs;
+    this.startTicking();
+
+    this.callbacks.onPhaseStart(phase, minutes);
+  }
+
+  /**
+   * Handle the end of the current phase and move to the next one
+   * @param completed - Whether the phase ran to the end (false when skipped)
+   */
+  private endPhase(completed: boolean): void {
+    if (this.phase === 'work') {
+      this.endedWorkSessions++;
+
+      if (completed) {
+        this.completedWorkSessions++;
+        this.callbacks.onWorkCompleted(this.completedWorkSessions);
+      }
+    }
+
+    this.beginPhase(this.getNextPhase());
+  }
+
+  /**
+   * Work is followed by a break (long every N cycles); breaks are followed by work
+   */
+  private getNextPhase(): PomodoroPhase {
+    if (this.phase !== 'work') {
+      return 'work';
+    }
+
+    const cycles = Math.max(1, this.settings.cyclesBeforeLongBreak);
+    return this.endedWorkSessions % cycles === 0 ? 'longBreak' : 'shortBreak';
+  }
+
+  /**
+   * Get the configured length of a phase in minutes
+   */
+  private getPhaseMinutes(phase: PomodoroPhase): number {
+    switch (phase) {
+      case 'work':
+        return this.settings.workMinutes;
+      case 'shortBreak':
+        return this.settings.shortBreakMinutes;
+      case 'longBreak':
+        return this.settings.longBreakMinutes;
+    }
+  }
+
+  /**
+   * Start the countdown interval
+   */
+  private startTicking(): void {
+    this.stopTicking();
+    this.tickTimer = setInterval(() => this.tick(), this.TICK_MS);
+    this.updateStatusBar();
+  }
+
+  /**
+   * Stop the countdown interval
+   */
+  private stopTicking(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+  }
+
+  /**
+   * Update the remaining time and finish the phase when it runs out
+   */
+  private tick(): void {
+    this.remainingMs = Math.max(0, this.phaseEndTime - Date.now());
+
+    if (this.remainingMs === 0) {
+      this.endPhase(true);
+      return;
+    }
+
+    this.updateStatusBar();
+  }
+
+  /**
+   * Render the countdown in the status bar
+   */
+  private updateStatusBar(): void {
+    const totalSeconds = Math.ceil(this.remainingMs / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    const countdown = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+    const paused = this.status === 'paused';
+
+    this.statusBarItem.text = `${PHASE_ICONS[this.phase]} ${countdown}${paused ? ' $(debug-pause)' : ''}`;
+    this.statusBarItem.tooltip = t(
+      paused ? 'productivity.pomodoro.tooltipPaused' : 'productivity.pomodoro.tooltip',
+      {
+        phase: t(`productivity.pomodoro.${this.phase}`, {
+          minutes: this.getPhaseMinutes(this.phase)
+        }),
+        completed: this.completedWorkSessions
+      }
+    );
+    this.statusBarItem.command = paused ? 'kubito.startPomodoro' : 'kubito.pausePomodoro';
+    this.statusBarItem.show();
+  }
+
+  /**
+   * Cleanup resources
+   */
+  public dispose(): void {
+    this.stopTicking();
+    this.statusBarItem.dispose();
+  }
+}
@@ -6,11 +6,30 @@
  * - Break reminders with configurable intervals
  * - Water intake reminders
  * - Active pause suggestions
+ * - Per-reminder settings and user-defined custom reminders
  * - Coding session metrics (lines written, time spent, files modified)
  * - Productivity insights and trends
+ * - Daily metrics history persisted across sessions
+ * - Reminder actions (done, snooze, skip today) with acknowledgement streaks
+ * - Working hours schedule (no reminders outside hours, optional after-hours nudge)
+ * - Active time, lines and files attributed to the checked-out Git branch
  */
 
 import * as vscode from 'vscode';
+import {
+  MetricsHistory,
+  IBranchMetrics,
+  IMetricsDelta,
+  IMetricsSummary,
+  MetricsPeriod,
+  getBranchKey,
+  getCurrentWorkspace,
+  getDateKey
+} from './metricsHistory';
+import { ISchedule, getSchedule, isQuietTime, isWorkingTime } from './schedule';
+import { ActivityTracker } from './activityTracker';
+import { IRepositoryBranch } from './gitIntegration';
+import { t } from '../localization';
 
 /**
  * Interface for coding session metrics
@@ -24,17 +43,149 @@ export interface ICodingMetrics {
   activeTimeMs: number;
   lastActivityTime: Date;
   languages: Record<string, number>; // Language -> lines written
+  pomodorosCompleted: number;
 }
 
 /**
  * Interface for reminder types
  */
 export interface IReminder {
-  type: 'break' | 'water' | 'posture' | 'eyes';
+  type: 'break' | 'water' | 'posture' | 'eyes' | 'custom';
   message: string;
   interval: number; // minutes
   lastShown: Date | null;
   enabled: boolean;
+  awaitingResponse: boolean; // Shown and not yet answered
+  skippedOn: string | null; // Date key (YYYY-MM-DD) the reminder was skipped for
+}
+
+/**
+ * User-defined reminder from the `kubito.productivity.customReminders` setting
+ */
+export interface ICustomReminder {
+  id: string; // Stable identifier (defaults to the message)
+  message: string;
+  emoji: string;
+  interval: number; // minutes
+  enabled: boolean;
+}
+
+/**
+ * Allowed interval range for custom reminders, in minutes
+ */
+const CUSTOM_REMINDER_INTERVAL = { MIN: 5, MAX: 480, DEFAULT: 60 } as const;
+
+/**
+ * Read and validate custom reminders from the raw setting value
+ * Entries without a message are ignored and intervals are clamped to the allowed range
+ * @param value - Raw `kubito.productivity.customReminders` setting
+ */
+export function parseCustomReminders(value: unknown): ICustomReminder[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const reminders: ICustomReminder[] = [];
+  value.forEach(entry => {
+    if (!entry || typeof entry !== 'object') {
+      return;
+    }
+
+    const raw = entry as Record<string, unknown>;
+    const message = typeof raw.message === 'string' ? raw.message.trim() : '';
+    if (!message) {
+      return;
+    }
+
+    const interval =
+      typeof raw.interval === 'number' && isFinite(raw.interval)
+        ? raw.interval
+        : CUSTOM_REMINDER_INTERVAL.DEFAULT;
+
+    reminders.push({
+      id: typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : message,
+      message,
+      emoji: typeof raw.emoji === 'string' && raw.emoji.trim() ? raw.emoji.trim() : '⏰',
+      interval: Math.min(
+        Math.max(Math.round(interval), CUSTOM_REMINDER_INTERVAL.MIN),
+        CUSTOM_REMINDER_INTERVAL.MAX
+      ),
+      enabled: raw.enabled !== false
+    });
+  });
+
+  return reminders;
+}
+
+/**
+ * Actions the user can take on a reminder
+ */
+export type ReminderAction = 'done' | 'snooze' | 'skipToday';
+
+/**
+ * Acknowledgement statistics for a reminder, used for streaks
+ */
+export interface IReminderStats {
+  acknowledged: number; // Total number of "done" answers
+  currentStreak: number; // Consecutive days with at least one acknowledgement
+  bestStreak: number;
+  lastAcknowledgedDate: string | null; // Date key (YYYY-MM-DD)
+}
+
+/**
+ * Message sent by the productivity manager to be shown by Kubito
+ */
+export interface IProductivityMessage {
+  type: 'reminder' | 'metrics' | 'acknowledgement' | 'nudge';
+  content: string;
+  reminder?: string; // Reminder key, set for reminders that accept actions
+}
+
+/**
+ * Minutes a snoozed reminder waits before showing again
+ */
+export const REMINDER_SNOOZE_MINUTES = 10;
+
+/**
+ * Global state key used to persist reminder statistics
+ */
+const REMINDER_STATS_STATE_KEY = 'kubito.reminderStats';
+
+/**
+ * Update reminder statistics with an acknowledgement
+ * Streaks count consecutive days with at least one acknowledgement
+ * @param stats - Current statistics (undefined for a reminder never acknowledged)
+ * @param date - When the reminder was acknowledged
+ */
+export function recordAcknowledgement(
+  stats: IReminderStats | undefined,
+  date: Date
+): IReminderStats {
+  const today = getDateKey(date);
+  const yesterdayDate = new Date(date);
+  yesterdayDate.setDate(date.getDate() - 1);
+  const yesterday = getDateKey(yesterdayDate);
+
+  const previous: IReminderStats = stats ?? {
+    acknowledged: 0,
+    currentStreak: 0,
+    bestStreak: 0,
+    lastAcknowledgedDate: null
+  };
+
+  let currentStreak = 1;
+  if (previous.lastAcknowledgedDate === today) {
+    currentStreak = previous.currentStreak;
+  } else if (previous.lastAcknowledgedDate === yesterday) {
+    currentStreak = previous.currentStreak + 1;
+  }
+
+  return {
+    acknowledged: previous.acknowledged + 1,
+    currentStreak,
+    bestStreak: Math.max(previous.bestStreak, currentStreak),
+    lastAcknowledgedDate: today
+  };
 }
 
 /**
@@ -49,6 +200,105 @@ export interface IProductivityInsights {
   suggestions: string[];
 }
 
+/**
+ * Format duration from milliseconds to human readable string in the current language
+ */
+export function formatDuration(durationMs: number): string {
+  const hours = Math.floor(durationMs / (1000 * 60 * 60));
+  const minutes = Math.floor((durationMs % (1000 * 60 * 60)) / (1000 * 60));
+
+  if (hours > 0) {
+    return t('productivity.duration.hoursMinutes', {
+      hours,
+      minutes
+    });
+  }
+  return t('productivity.duration.minutes', { minutes });
+}
+
+/**
+ * Activity collected between two history flushes, used for the session timeline
+ */
+export interface ITimelinePoint {
+  time: number; // Timestamp (ms) at the end of the interval
+  linesWritten: number;
+  linesDeleted: number;
+  activeTimeMs: number;
+}
+
+/**
+ * Read-only view of the running session for reporting
+ */
+export interface ISessionSnapshot {
+  sessionStart: Date;
+  linesWritten: number;
+  linesDeleted: number;
+  filesModified: string[];
+  languages: Record<string, number>;
+  pomodorosCompleted: number;
+  timeline: ITimelinePoint[];
+  insights: IProductivityInsights;
+}
+
+/**
+ * Inputs for the productivity score
+ */
+export interface IScoreInputs {
+  sessionTimeMs: number;
+  activeTimeMs: number;
+  linesWritten: number;
+  filesModified: number;
+}
+
+/**
+ * Calculate productivity score (0-100) based on various factors
+ * Shared by live sessions and stored daily history so both use the same scale
+ */
+export function calculateProductivityScore(inputs: IScoreInputs): number {
+  if (inputs.sessionTimeMs <= 0) {
+    return 0;
+  }
+
+  const activeRatio = inputs.activeTimeMs / inputs.sessionTimeMs;
+  const activeHours = inputs.activeTimeMs / (1000 * 60 * 60);
+  const linesPerActiveHour = activeHours > 0 ? inputs.linesWritten / activeHours : 0;
+
+  // Base score on activity ratio (0-50 points)
+  let score = Math.min(activeRatio * 50, 50);
+
+  // Add points for productivity (0-30 points)
+  if (linesPerActiveHour > 100) {
+    score += 30;
+  } else if (linesPerActiveHour > 50) {
+    score += 20;
+  } else if (linesPerActiveHour > 20) {
+    score += 10;
+  }
+
+  // Add points for file diversity (0-20 points)
+  if (inputs.filesModified > 5) {
+    score += 20;
+  } else if (inputs.filesModified > 3) {
+    score += 15;
+  } else if (inputs.filesModified > 1) {
+    score += 10;
+  }
+
+  return Math.round(Math.min(score, 100));
+}
+
+/**
+ * Snapshot of the metrics already written to the history store
+ */
+interface IMetricsSnapshot {
+  linesWritten: number;
+  linesDeleted: number;
+  totalKeystrokes: number;
+  activeTimeMs: number;
+  languages: Record<string, number>;
+  pomodorosCompleted: number;
+}
+
 /**
  * Manages productivity features for Kubito
  */
@@ -56,19 +306,49 @@ export class ProductivityManager {
   private metrics: ICodingMetrics;
   private reminders: Map<string, IReminder>;
   private reminderTimers: Map<string, ReturnType<typeof setInterval>>;
+  private snoozeTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
   private metricsTimer: ReturnType<typeof setInterval> | null = null;
-  private lastKeystrokeTime: Date = new Date();
+  private historyTimer: ReturnType<typeof setInterval> | null = null;
+  private rolloverTimer: ReturnType<typeof setTimeout> | null = null;
+  private currentDay: string = getDateKey(new Date());
+  private lastFlushTime: Date = new Date();
+  private flushedSnapshot: IMetricsSnapshot;
+  private timelineSnapshot: IMetricsSnapshot; // Metrics at the last timeline point
+  private pendingFiles: Set<string> = new Set<string>(); // Files touched since the last flush
+  private timeline: ITimelinePoint[] = [];
+  private schedule: ISchedule = getSchedule();
+  private lastAfterHoursNudge: string | null = null; // Date key of the last after-hours nudge
+  private currentBranch: IRepositoryBranch | undefined; // Branch metrics are attributed to
+  private branchSnapshot: IMetricsSnapshot; // Metrics when the current branch was checked out
+  private branchFiles: Set<string> = new Set<string>(); // Files touched on the current branch
+  private pendingBranches: Record<string, IBranchMetrics> = {}; // Branch metrics not flushed
+  private readonly disposables: vscode.Disposable[] = []; // Listeners, released by dispose()
   private readonly IDLE_THRESHOLD_MS = 5 * 60 * 1000; // 5 minutes
+  private readonly HISTORY_FLUSH_MS = 5 * 60 * 1000; // 5 minutes
+  private readonly MAX_TIMELINE_POINTS = 288; // 24 hours of 5 minute intervals
+  private readonly activity = new ActivityTracker(this.IDLE_THRESHOLD_MS);
+
+  /**
+   * Fired when the user becomes active, idle or away
+   */
+  public readonly onDidChangeActivityState = this.activity.onDidChangeState;
 
   constructor(
     private readonly context: vscode.ExtensionContext,
-    private readonly onShowMessage: (message: { type: string; content: string }) => void
+    private readonly onShowMessage: (message: IProductivityMessage) => void,
+    private readonly history: MetricsHistory
   ) {
     this.metrics = this.initializeMetrics();
+    this.flushedSnapshot = this.takeSnapshot();
+    this.timelineSnapshot = this.flushedSnapshot;
+    this.branchSnapshot = this.flushedSnapshot;
     this.reminders = this.initializeReminders();
     this.reminderTimers = new Map();
 
+    this.activity.startListening();
+    this.registerEventListeners();
     this.startProductivityTracking();
+    this.startHistoryPersistence();
   }
 
   /**
@@ -83,7 +363,8 @@ export class ProductivityManager {
       totalKeystrokes: 0,
       activeTimeMs: 0,
       lastActivityTime: new Date(),
-      languages: {}
+      languages: {},
+      pomodorosCompleted: 0
     };
   }
 
@@ -92,39 +373,61 @@ export class ProductivityManager {
    */
   private initializeReminders(): Map<string, IReminder> {
     const config = vscode.workspace.getConfiguration('kubito.productivity');
+    const remindersEnabled = config.get<boolean>('reminders', true);
 
     const reminders = new Map<string, IReminder>();
 
     reminders.set('break', {
       type: 'break',
-      message: 'Time for a short break! 🧘‍♂️',
+      message: t('reminders.break'),
       interval: config.get<number>('breakInterval', 30),
       lastShown: null,
-      enabled: config.get<boolean>('reminders', true)
+      enabled: remindersEnabled && config.get<boolean>('breakReminders', true),
+      awaitingResponse: false,
+      skippedOn: null
     });
 
     reminders.set('water', {
       type: 'water',
-      message: 'Stay hydrated! 💧',
+      message: t('reminders.water'),
       interval: config.get<number>('waterInterval', 45),
       lastShown: null,
-      enabled: config.get<boolean>('reminders', true)
+      enabled: remindersEnabled && config.get<boolean>('waterReminders', true),
+      awaitingResponse: false,
+      skippedOn: null
     });
 
     reminders.set('posture', {
       type: 'posture',
-      message: 'Check your posture! 🪑',
-      interval: 25,
+      message: t('reminders.posture'),
+      interval: config.get<number>('postureInterval', 25),
       lastShown: null,
-      enabled: config.get<boolean>('reminders', true)
+      enabled: remindersEnabled && config.get<boolean>('postureReminders', true),
+      awaitingResponse: false,
+      skippedOn: null
     });
 
     reminders.set('eyes', {
       type: 'eyes',
-      message: 'Rest your eyes - look away for 20 seconds! 👀',
-      interval: 20,
+      message: t('reminders.eyes'),
+      interval: config.get<number>('eyesInterval', 20),
       lastShown: null,
-      enabled: config.get<boolean>('reminders', true)
+      enabled: remindersEnabled && config.get<boolean>('eyesReminders', true),
+      awaitingResponse: false,
+      skippedOn: null
+    });
+
+    // User-defined reminders share the same timers and actions
+    parseCustomReminders(config.get<unknown[]>('customReminders', [])).forEach(custom => {
+      reminders.set(`custom.${custom.id}`, {
+        type: 'custom',
+        message: `${custom.message} ${custom.emoji}`,
+        interval: custom.interval,
+        lastShown: null,
+        enabled: remindersEnabled && custom.enabled,
+        awaitingResponse: false,
+        skippedOn: null
+      });
     });
 
     return reminders;
@@ -136,7 +439,6 @@ export class ProductivityManager {
   public startProductivityTracking(): void {
     this.startReminderTimers();
     this.startMetricsTracking();
-    this.registerEventListeners();
   }
 
   /**
@@ -145,18 +447,25 @@ export class ProductivityManager {
   private startReminderTimers(): void {
     this.reminders.forEach((reminder, key) => {
       if (reminder.enabled) {
-        const timer = setInterval(
-          () => {
-            this.checkAndShowReminder(key);
-          },
-          reminder.interval * 60 * 1000
-        ); // Convert minutes to milliseconds
-
-        this.reminderTimers.set(key, timer);
+        this.startReminderTimer(key, reminder);
       }
     });
   }
 
+  /**
+   * Start the interval timer of a single reminder
+   */
+  private startReminderTimer(key: string, reminder: IReminder): void {
+    const timer = setInterval(
+      () => {
+        this.checkAndShowReminder(key);
+      },
+      reminder.interval * 60 * 1000
+    ); // Convert minutes to milliseconds
+
+    this.reminderTimers.set(key, timer);
+  }
+
   /**
    * Start metrics tracking
    */
@@ -168,13 +477,220 @@ export class ProductivityManager {
       this.metricsTimer = setInterval(
         () => {
           this.updateActiveTime();
-          this.showMetricsUpdate();
+          if (this.isReminderTime()) {
+            this.showMetricsUpdate();
+          }
         },
         metricsInterval * 60 * 1000
       );
     }
   }
 
+  /**
+   * Start periodic persistence of metrics to the daily history
+   */
+  private startHistoryPersistence(): void {
+    this.historyTimer = setInterval(() => {
+      this.addTimelinePoint();
+      void this.flushMetrics();
+    }, this.HISTORY_FLUSH_MS);
+
+    this.scheduleRollover();
+  }
+
+  /**
+   * Schedule a flush right after midnight so each day gets its own record
+   */
+  private scheduleRollover(): void {
+    const now = new Date();
+    const nextMidnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+
+    // Small margin to make sure the date has already changed when the timer fires
+    this.rolloverTimer = setTimeout(
+      () => {
+        void this.flushMetrics();
+        this.scheduleRollover();
+      },
+      nextMidnight.getTime() - now.getTime() + 1000
+    );
+  }
+
+  /**
+   * Write the metrics accumulated since the last flush to the history store
+   * Metrics are attributed to the day that was active when they were collected
+   */
+  public async flushMetrics(): Promise<void> {
+    this.updateActiveTime();
+    this.closeBranchPeriod();
+
+    const now = new Date();
+    const snapshot = this.takeSnapshot();
+    const previous = this.flushedSnapshot;
+
+    const languages: Record<string, number> = {};
+    Object.entries(snapshot.languages).forEach(([language, lines]) => {
+      const added = lines - (previous.languages[language] || 0);
+      if (added > 0) {
+        languages[language] = added;
+      }
+    });
+
+    const delta: IMetricsDelta = {
+      linesWritten: snapshot.linesWritten - previous.linesWritten,
+      linesDeleted: snapshot.linesDeleted - previous.linesDeleted,
+      filesModified: Array.from(this.pendingFiles),
+      totalKeystrokes: snapshot.totalKeystrokes - previous.totalKeystrokes,
+      activeTimeMs: snapshot.activeTimeMs - previous.activeTimeMs,
+      sessionTimeMs: now.getTime() - this.lastFlushTime.getTime(),
+      languages,
+      pomodorosCompleted: snapshot.pomodorosCompleted - previous.pomodorosCompleted,
+      branches: this.pendingBranches
+    };
+
+    const day = this.currentDay;
+    this.flushedSnapshot = snapshot;
+    this.lastFlushTime = now;
+    this.pendingFiles.clear();
+    this.pendingBranches = {};
+    this.currentDay = getDateKey(now);
+
+    await this.history.record(day, getCurrentWorkspace(), delta);
+  }
+
+  /**
+   * Add the activity of the last interval to the session timeline
+   * Only the history timer adds points, so they stay HISTORY_FLUSH_MS apart
+   * whatever else flushes the metrics (summaries, exports...)
+   */
+  private addTimelinePoint(): void {
+    this.updateActiveTime();
+
+    const snapshot = this.takeSnapshot();
+    const previous = this.timelineSnapshot;
+
+    this.timeline.push({
+      time: Date.now(),
+      linesWritten: snapshot.linesWritten - previous.linesWritten,
+      linesDeleted: snapshot.linesDeleted - previous.linesDeleted,
+      activeTimeMs: snapshot.activeTimeMs - previous.activeTimeMs
+    });
+    if (this.timeline.length > this.MAX_TIMELINE_POINTS) {
+      this.timeline.shift();
+    }
+
+    this.timelineSnapshot = snapshot;
+  }
+
+  /**
+   * Copy the metrics that are persisted to the history
+   */
+  private takeSnapshot(): IMetricsSnapshot {
+    return {
+      linesWritten: this.metrics.linesWritten,
+      linesDeleted: this.metrics.linesDeleted,
+      totalKeystrokes: this.metrics.totalKeystrokes,
+      activeTimeMs: this.metrics.activeTimeMs,
+      languages: { ...this.metrics.languages },
+      pomodorosCompleted: this.metrics.pomodorosCompleted
+    };
+  }
+
+  /**
+   * Get aggregated metrics for a period, including the current unsaved session data
+   * @param period - The period to summarize
+   */
+  public async getHistorySummary(period: MetricsPeriod): Promise<IMetricsSummary> {
+    await this.flushMetrics();
+    return this.history.summarize(period);
+  }
+
+  /**
+   * Attribute the metrics collected from now on to a Git branch
+   * Metrics collected so far stay with the previous branch until the next flush, so
+   * switching editors between repositories writes nothing
+   * @param branch - Checked-out branch, undefined when unknown or detached
+   */
+  public setBranch(branch: IRepositoryBranch | undefined): void {
+    if (
+      branch?.repository === this.currentBranch?.repository &&
+      branch?.branch === this.currentBranch?.branch
+    ) {
+      return;
+    }
+
+    this.updateActiveTime();
+    this.closeBranchPeriod();
+    this.currentBranch = branch;
+  }
+
+  /**
+   * Add the metrics collected since the current branch was checked out to the pending
+   * branch metrics, and start counting again
+   */
+  private closeBranchPeriod(): void {
+    const snapshot = this.takeSnapshot();
+    const previous = this.branchSnapshot;
+    const metrics = {
+      activeTimeMs: snapshot.activeTimeMs - previous.activeTimeMs,
+      linesWritten: snapshot.linesWritten - previous.linesWritten,
+      linesDeleted: snapshot.linesDeleted - previous.linesDeleted,
+      filesModified: Array.from(this.branchFiles)
+    };
+
+    this.branchSnapshot = snapshot;
+    this.branchFiles.clear();
+
+    const branch = this.currentBranch;
+    if (
+      !branch ||
+      (metrics.activeTimeMs <= 0 &&
+        metrics.linesWritten <= 0 &&
+        metrics.linesDeleted <= 0 &&
+        metrics.filesModified.length === 0)
+    ) {
+      return;
+    }
+
+    const key = getBranchKey(branch.repository, branch.branch);
+    const pending = this.pendingBranches[key];
+    this.pendingBranches[key] = {
+      branch: branch.branch,
+      repository: branch.repository,
+      activeTimeMs: (pending?.activeTimeMs ?? 0) + metrics.activeTimeMs,
+      linesWritten: (pending?.linesWritten ?? 0) + metrics.linesWritten,
+      linesDeleted: (pending?.linesDeleted ?? 0) + metrics.linesDeleted,
+      filesModified: Array.from(
+        new Set([...(pending?.filesModified ?? []), ...metrics.filesModified])
+      )
+    };
+  }
+
+  /**
+   * Count a completed Pomodoro work session
+   */
+  public recordPomodoro(): void {
+    this.metrics.pomodorosCompleted++;
+  }
+
+  /**
+   * Get a snapshot of the running session from the live metrics
+   * Nothing is written to the history, so the dashboard can refresh it as often as it likes
+   */
+  public getSessionSnapshot(): ISessionSnapshot {
+    this.updateActiveTime();
+
+    return {
+      sessionStart: this.metrics.sessionStart,
+      linesWritten: this.metrics.linesWritten,
+      linesDeleted: this.metrics.linesDeleted,
+      filesModified: Array.from(this.metrics.filesModified),
+      languages: { ...this.metrics.languages },
+      pomodorosCompleted: this.metrics.pomodorosCompleted,
+      timeline: [...this.timeline],
+      insights: this.getProductivityInsights()
+    };
+  }
+
   /**
    * Register event listeners for tracking
    */
@@ -196,15 +712,15 @@ export class ProductivityManager {
       }
     });
 
-    this.context.subscriptions.push(onDocumentChange, onDocumentSave, onActiveEditorChange);
+    this.disposables.push(onDocumentChange, onDocumentSave, onActiveEditorChange);
   }
 
   /**
    * Track text changes for metrics
    */
   private trackTextChanges(event: vscode.TextDocumentChangeEvent): void {
-    this.lastKeystrokeTime = new Date();
     this.metrics.lastActivityTime = new Date();
+    this.checkAfterHours();
 
     event.contentChanges.forEach(change => {
       const linesChanged = change.text.split('\n').length - 1;
@@ -237,20 +753,15 @@ export class ProductivityManager {
    */
   private trackFileActivity(fileName: string): void {
     this.metrics.filesModified.add(fileName);
+    this.pendingFiles.add(fileName);
+    this.branchFiles.add(fileName);
   }
 
   /**
-   * Update active coding time
+   * Update active coding time from the activity tracker
    */
   private updateActiveTime(): void {
-    const now = new Date();
-    const timeSinceLastActivity = now.getTime() - this.metrics.lastActivityTime.getTime();
-
-    if (timeSinceLastActivity < this.IDLE_THRESHOLD_MS) {
-      // Only count as active time if user was recently active
-      const timeSinceLastUpdate = now.getTime() - this.lastKeystrokeTime.getTime();
-      this.metrics.activeTimeMs += Math.min(timeSinceLastUpdate, this.IDLE_THRESHOLD_MS);
-    }
+    this.metrics.activeTimeMs = this.activity.getActiveTimeMs();
   }
 
   /**
@@ -262,18 +773,160 @@ export class ProductivityManager {
       return;
     }
 
+    // Nobody would see the reminder while VS Code is in the background
     const now = new Date();
+    if (
+      reminder.skippedOn === getDateKey(now) ||
+      !this.isReminderTime(now) ||
+      this.activity.getState() === 'away'
+    ) {
+      return;
+    }
+
     if (
       !reminder.lastShown ||
       now.getTime() - reminder.lastShown.getTime() >= reminder.interval * 60 * 1000
     ) {
+      this.showReminder(reminderKey, reminder);
+    }
+  }
+
+  /**
+   * Whether reminders may be shown: within working hours and outside quiet hours
+   */
+  private isReminderTime(date: Date = new Date()): boolean {
+    return isWorkingTime(this.schedule, date) && !isQuietTime(this.schedule, date);
+  }
+
+  /**
+   * Nudge the user, once a day, when coding outside working hours
+   * Quiet hours are respected; days off get the overtime message
+   */
+  private checkAfterHours(): void {
+    const now = new Date();
+    const today = getDateKey(now);
+
+    if (
+      !this.schedule.enabled ||
+      !this.schedule.afterHoursNudge ||
+      this.lastAfterHoursNudge === today ||
+      isWorkingTime(this.schedule, now) ||
+      isQuietTime(this.schedule, now)
+    ) {
+      return;
+    }
+
+    this.lastAfterHoursNudge = today;
+    const isWorkingDay = this.schedule.workingDays.includes(now.getDay());
+
+    this.onShowMessage({
+      type: 'nudge',
+      content: isWorkingDay ? t('messages.workingLate') : t('messages.overtime')
+    });
+  }
+
+  /**
+   * Show a reminder that accepts actions
+   */
+  private showReminder(key: string, reminder: IReminder): void {
+    this.onShowMessage({
+      type: 'reminder',
+      content: reminder.message,
+      reminder: key
+    });
+
+    reminder.lastShown = new Date();
+    reminder.awaitingResponse = true;
+  }
+
+  /**
+   * Handle the user's answer to a reminder
+   * Only the first answer counts, so the bubble and the notification can't both apply
+   * @param reminderKey - Key of the reminder that was answered
+   * @param action - The chosen action
+   */
+  public async handleReminderAction(reminderKey: string, action: ReminderAction): Promise<void> {
+    const reminder = this.reminders.get(reminderKey);
+    if (!reminder || !reminder.awaitingResponse) {
+      return;
+    }
+
+    reminder.awaitingResponse = false;
+
+    switch (action) {
+      case 'done':
+        await this.acknowledgeReminder(reminderKey);
+        break;
+      case 'snooze':
+        this.snoozeReminder(reminderKey, reminder);
+        break;
+      case 'skipToday':
+        reminder.skippedOn = getDateKey(new Date());
+        break;
+    }
+  }
+
+  /**
+   * Record an acknowledgement and celebrate streaks
+   */
+  private async acknowledgeReminder(reminderKey: string): Promise<void> {
+    const allStats = this.getReminderStats();
+    const stats = recordAcknowledgement(allStats[reminderKey], new Date());
+
+    await this.context.globalState.update(REMINDER_STATS_STATE_KEY, {
+      ...allStats,
+      [reminderKey]: stats
+    });
+
+    if (stats.currentStreak > 1) {
       this.onShowMessage({
-        type: 'reminder',
-        content: reminder.message
+        type: 'acknowledgement',
+        content: t('reminders.streak', { count: stats.currentStreak })
       });
+    }
+  }
+
+  /**
+   * Show the reminder again after the snooze delay, then resume its interval
+   */
+  private snoozeReminder(key: string, reminder: IReminder): void {
+    const interval = this.reminderTimers.get(key);
+    if (interval) {
+      clearInterval(interval);
+      this.reminderTimers.delete(key);
+    }
 
-      reminder.lastShown = now;
+    const existingSnooze = this.snoozeTimers.get(key);
+    if (existingSnooze) {
+      clearTimeout(existingSnooze);
     }
+
+    const timer = setTimeout(
+      () => {
+        this.snoozeTimers.delete(key);
+        if (
+          reminder.enabled &&
+          reminder.skippedOn !== getDateKey(new Date()) &&
+          this.isReminderTime()
+        ) {
+          this.showReminder(key, reminder);
+        }
+        this.startReminderTimer(key, reminder);
+      },
+      REMINDER_SNOOZE_MINUTES * 60 * 1000
+    );
+
+    this.snoozeTimers.set(key, timer);
+  }
+
+  /**
+   * Get acknowledgement statistics per reminder key (custom reminders use `custom.<id>`)
+   */
+  public getReminderStats(): Record<string, IReminderStats> {
+    return this.context.globalState.get<Record<string, IReminderStats>>(
+      REMINDER_STATS_STATE_KEY,
+      {}
+    );
   }
 
   /**
@@ -282,10 +935,11 @@ export class ProductivityManager {
   private showMetricsUpdate(): void {
     const insights = this.getProductivityInsights();
 
-    const metricsMessage =
-      `📊 Session: ${insights.sessionDuration} | ` +
-      `${insights.linesPerHour} lines/hour | ` +
-      `Score: ${insights.productivityScore}/100`;
+    const metricsMessage = [
+      `📊 ${t('productivity.metrics.sessionDuration', { duration: insights.sessionDuration })}`,
+      t('productivity.metrics.linesPerHour', { count: insights.linesPerHour }),
+      t('productivity.metrics.productivityScore', { score: insights.productivityScore })
+    ].join(' | ');
 
     this.onShowMessage({
       type: 'metrics',
@@ -300,26 +954,31 @@ export class ProductivityManager {
     this.updateActiveTime();
 
     const sessionDurationMs = new Date().getTime() - this.metrics.sessionStart.getTime();
-    const sessionHours = sessionDurationMs / (1000 * 60 * 60);
     const activeHours = this.metrics.activeTimeMs / (1000 * 60 * 60);
 
     const linesPerHour = activeHours > 0 ? Math.round(this.metrics.linesWritten / activeHours) : 0;
 
     // Find most active language
     const mostActiveLanguage =
-      Object.entries(this.metrics.languages).sort(([, a], [, b]) => b - a)[0]?.[0] || 'Unknown';
+      Object.entries(this.metrics.languages).sort(([, a], [, b]) => b - a)[0]?.[0] ||
+      t('productivity.metrics.unknownLanguage');
 
     // Calculate productivity score (0-100)
-    const productivityScore = this.calculateProductivityScore(sessionHours, activeHours);
+    const productivityScore = calculateProductivityScore({
+      sessionTimeMs: sessionDurationMs,
+      activeTimeMs: this.metrics.activeTimeMs,
+      linesWritten: this.metrics.linesWritten,
+      filesModified: this.metrics.filesModified.size
+    });
 
     const insights: IProductivityInsights = {
-      sessionDuration: this.formatDuration(sessionDurationMs),
+      sessionDuration: formatDuration(sessionDurationMs),
       linesPerHour,
       mostActiveLanguage,
       filesModified: this.metrics.filesModified.size,
       productivityScore,
       suggestions: this.generateSuggestions({
-        sessionDuration: this.formatDuration(sessionDurationMs),
+        sessionDuration: formatDuration(sessionDurationMs),
         linesPerHour,
         mostActiveLanguage,
         filesModified: this.metrics.filesModified.size,
@@ -331,41 +990,6 @@ export class ProductivityManager {
     return insights;
   }
 
-  /**
-   * Calculate productivity score based on various factors
-   */
-  private calculateProductivityScore(sessionHours: number, activeHours: number): number {
-    if (sessionHours === 0) {
-      return 0;
-    }
-
-    const activeRatio = activeHours / sessionHours;
-    const linesPerActiveHour = activeHours > 0 ? this.metrics.linesWritten / activeHours : 0;
-
-    // Base score on activity ratio (0-50 points)
-    let score = Math.min(activeRatio * 50, 50);
-
-    // Add points for productivity (0-30 points)
-    if (linesPerActiveHour > 100) {
-      score += 30;
-    } else if (linesPerActiveHour > 50) {
-      score += 20;
-    } else if (linesPerActiveHour > 20) {
-      score += 10;
-    }
-
-    // Add points for file diversity (0-20 points)
-    if (this.metrics.filesModified.size > 5) {
-      score += 20;
-    } else if (this.metrics.filesModified.size > 3) {
-      score += 15;
-    } else if (this.metrics.filesModified.size > 1) {
-      score += 10;
-    }
-
-    return Math.round(Math.min(score, 100));
-  }
-
   /**
    * Generate productivity suggestions
    */
@@ -373,31 +997,30 @@ export class ProductivityManager {
     const suggestions: string[] = [];
 
     if (insights.productivityScore < 30) {
-      suggestions.push('Consider taking more frequent breaks');
+      suggestions.push(t('productivity.suggestions.moreBreaks'));
     }
 
     if (insights.linesPerHour < 20) {
-      suggestions.push('Try time-boxing your tasks');
+      suggestions.push(t('productivity.suggestions.timeBoxing'));
     }
 
     if (insights.filesModified < 2) {
-      suggestions.push('Break down tasks into smaller files');
+      suggestions.push(t('productivity.suggestions.smallerFiles'));
     }
 
     return suggestions;
   }
 
   /**
-   * Format duration from milliseconds to human readable string
+   * Translate built-in reminder messages again after a language change
+   * Timers and reminder state are kept
    */
-  private formatDuration(durationMs: number): string {
-    const hours = Math.floor(durationMs / (1000 * 60 * 60));
-    const minutes = Math.floor((durationMs % (1000 * 60 * 60)) / (1000 * 60));
-
-    if (hours > 0) {
-      return `${hours}h ${minutes}m`;
-    }
-    return `${minutes}m`;
+  public updateTranslations(): void {
+    this.reminders.forEach(reminder => {
+      if (reminder.type !== 'custom') {
+        reminder.message = t(`reminders.${reminder.type}`);
+      }
+    });
   }
 
   /**
@@ -407,24 +1030,47 @@ export class ProductivityManager {
     // Clear existing timers
     this.reminderTimers.forEach(timer => clearInterval(timer));
     this.reminderTimers.clear();
+    this.snoozeTimers.forEach(timer => clearTimeout(timer));
+    this.snoozeTimers.clear();
 
     if (this.metricsTimer) {
       clearInterval(this.metricsTimer);
       this.metricsTimer = null;
     }
 
-    // Reinitialize with new settings
+    // Reinitialize with new settings, keeping reminders skipped for today
+    this.schedule = getSchedule();
+    const previousReminders = this.reminders;
     this.reminders = this.initializeReminders();
+    this.reminders.forEach((reminder, key) => {
+      reminder.skippedOn = previousReminders.get(key)?.skippedOn ?? null;
+    });
     this.startProductivityTracking();
   }
 
   /**
    * Cleanup resources
+   * @returns Resolves once the metrics collected since the last flush are written
    */
-  public dispose(): void {
+  public dispose(): Promise<void> {
     this.reminderTimers.forEach(timer => clearInterval(timer));
+    this.snoozeTimers.forEach(timer => clearTimeout(timer));
     if (this.metricsTimer) {
       clearInterval(this.metricsTimer);
     }
+    if (this.historyTimer) {
+      clearInterval(this.historyTimer);
+    }
+    if (this.rolloverTimer) {
+      clearTimeout(this.rolloverTimer);
+    }
+
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables.length = 0;
+
+    // Persist whatever was collected since the last flush
+    const flushed = this.flushMetrics();
+    this.activity.dispose();
+    return flushed;
   }
 }
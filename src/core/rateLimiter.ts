@@ -0,0 +1,78 @@
+/**
+ * Rate limiter for messages Kubito receives from outside the extension
+ *
+ * Keeps a sliding window of accepted events and refuses new ones once the
+ * window is full or when they follow the previous one too closely.
+ */
+
+/**
+ * Sliding window rate limiter
+ */
+export class RateLimiter {
+  private readonly accepted: number[] = []; // Times of accepted events inside the window
+
+  /**
+   * @param maxEvents - Events accepted per window
+   * @param windowMs - Length of the sliding window
+   * @param minIntervalMs - Minimum time between two accepted events
+   */
+  constructor(
+    private maxEvents: number,
+    private readonly windowMs: number,
+    private readonly minIntervalMs: number = 0
+  ) {}
+
+  /**
+   * Accept an event if the limits allow it
+   * @param now - Time of the event
+   * @returns Whether the event is accepted
+   */
+  public tryAcquire(now: number = Date.now()): boolean {
+    if (!this.canAcquire(now)) {
+      return false;
+    }
+
+    this.accepted.push(now);
+    return true;
+  }
+
+  /**
+   * Check whether the limits would accept an event, without accepting it
+   * @param now - Time of the event
+   */
+  public canAcquire(now: number = Date.now()): boolean {
+    this.forgetOldEvents(now);
+
+    const last = this.accepted[this.accepted.length - 1];
+    return (
+      this.accepted.length < this.maxEvents &&
+      (last === undefined || now - last >= this.minIntervalMs)
+    );
+  }
+
+  /**
+   * Check whether no event was accepted inside the window
+   * @param now - Current time
+   */
+  public isIdle(now: number = Date.now()): boolean {
+    this.forgetOldEvents(now);
+    return this.accepted.length === 0;
+  }
+
+  /**
+   * Drop accepted events that left the window
+   */
+  private forgetOldEvents(now: number): void {
+    while (this.accepted.length > 0 && now - (this.accepted[0] ?? 0) >= this.windowMs) {
+      this.accepted.shift();
+    }
+  }
+
+  /**
+   * Change the number of events accepted per window
+   * @param maxEvents - Events accepted per window
+   */
+  public setMaxEvents(maxEvents: number): void {
+    this.maxEvents = maxEvents;
+  }
+}
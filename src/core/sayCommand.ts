@@ -0,0 +1,63 @@
+/**
+ * Arguments of the `kubito.say` command
+ *
+ * The command makes Kubito talk from keybindings, tasks and other extensions:
+ * `vscode.commands.executeCommand('kubito.say', { content: 'Build passed! 🎉' })`.
+ * Arguments come from user files, so every field is checked.
+ */
+
+import { IMessage, MessagePriority } from '../webview/protocol';
+
+/**
+ * Arguments accepted by `kubito.say` (a plain string is used as text content)
+ */
+export interface ISayArguments {
+  type?: 'text' | 'emoji' | 'image'; // Images are Kubito's own: 'kubit-logo' or 'kubit-love'
+  content: string;
+  alt?: string;
+  durationMs?: number;
+  priority?: MessagePriority;
+}
+
+const MESSAGE_TYPES: readonly IMessage['type'][] = ['text', 'emoji', 'image'];
+const PRIORITIES: readonly MessagePriority[] = ['low', 'normal', 'high'];
+const BUILT_IN_IMAGES = ['kubit-logo', 'kubit-love'];
+const MIN_DURATION_MS = 1000;
+const MAX_DURATION_MS = 60 * 1000;
+
+/**
+ * Turn `kubito.say` arguments into a message
+ * @param value - Command arguments: a string or an `ISayArguments` object
+ * @returns The message, or undefined when an argument is missing or invalid
+ */
+export function parseSayArguments(value: unknown): IMessage | undefined {
+  const args = (typeof value === 'string' ? { content: value } : value) as Partial<
+    Record<keyof ISayArguments, unknown>
+  > | null;
+  if (typeof args !== 'object' || args === null) {
+    return undefined;
+  }
+
+  const { type = 'text', content, alt, durationMs, priority } = args;
+  if (
+    !MESSAGE_TYPES.includes(type as IMessage['type']) ||
+    typeof content !== 'string' ||
+    !content.trim() ||
+    (type === 'image' && !BUILT_IN_IMAGES.includes(content.trim())) ||
+    (alt !== undefined && typeof alt !== 'string') ||
+    (durationMs !== undefined && (typeof durationMs !== 'number' || !isFinite(durationMs))) ||
+    (priority !== undefined && !PRIORITIES.includes(priority as MessagePriority))
+  ) {
+    return undefined;
+  }
+
+  return {
+    type: type as IMessage['type'],
+    content: content.trim(),
+    ...(typeof alt === 'string' ? { alt } : {}),
+    ...(typeof durationMs === 'number'
+      ? { durationMs: Math.min(MAX_DURATION_MS, Math.max(MIN_DURATION_MS, durationMs)) }
+      : {}),
+    ...(priority !== undefined ? { priority: priority as MessagePriority } : {})
+  };
+}
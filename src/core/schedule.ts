@@ -0,0 +1,163 @@
+/**
+ * Working Schedule for Kubito
+ *
+ * Describes when the user works so reminders and chatter stay within working hours.
+ * Features:
+ * - Working days and working hours (turned off with null, whole working days then count)
+ * - Quiet hours (ranges may wrap around midnight)
+ * - Optional nudge when coding past working hours
+ */
+
+import * as vscode from 'vscode';
+
+/**
+ * Time range within a day, in minutes since midnight
+ */
+export interface IMinuteRange {
+  start: number;
+  end: number; // May be lower than start for ranges wrapping around midnight
+}
+
+/**
+ * Resolved schedule settings
+ */
+export interface ISchedule {
+  enabled: boolean;
+  workingDays: number[]; // 0 = Sunday ... 6 = Saturday
+  workingHours: IMinuteRange | null; // null when working hours are turned off
+  quietHours: IMinuteRange | null; // null when quiet hours are turned off
+  afterHoursNudge: boolean;
+}
+
+/**
+ * Day names accepted in the `workingDays` setting, indexed like Date.getDay()
+ */
+const DAY_NAMES: readonly string[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Default quiet hours (22:00 - 07:00)
+ */
+const DEFAULT_QUIET_HOURS: IMinuteRange = { start: 22 * 60, end: 7 * 60 };
+
+/**
+ * Default working hours (09:00 - 18:00)
+ */
+const DEFAULT_WORKING_HOURS: IMinuteRange = { start: 9 * 60, end: 18 * 60 };
+
+/**
+ * Defaults used for missing or invalid schedule fields
+ */
+const DEFAULT_SCHEDULE: ISchedule = {
+  enabled: false,
+  workingDays: [1, 2, 3, 4, 5],
+  workingHours: DEFAULT_WORKING_HOURS,
+  quietHours: DEFAULT_QUIET_HOURS,
+  afterHoursNudge: true
+};
+
+/**
+ * Parse a "HH:MM" time into minutes since midnight
+ * @returns The minutes, or undefined when the value is not a valid time
+ */
+export function parseTime(value: unknown): number | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return undefined;
+  }
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Parse a { start, end } setting into a minute range
+ */
+function parseRange(value: unknown, fallback: IMinuteRange): IMinuteRange {
+  if (!value || typeof value !== 'object') {
+    return fallback;
+  }
+
+  const raw = value as Record<string, unknown>;
+  return {
+    start: parseTime(raw.start) ?? fallback.start,
+    end: parseTime(raw.end) ?? fallback.end
+  };
+}
+
+/**
+ * Resolve the raw `kubito.schedule` setting, filling in defaults for missing fields
+ * @param value - Raw setting value
+ */
+export function parseSchedule(value: unknown): ISchedule {
+  if (!value || typeof value !== 'object') {
+    return { ...DEFAULT_SCHEDULE };
+  }
+
+  const raw = value as Record<string, unknown>;
+  const workingDays = Array.isArray(raw.workingDays)
+    ? raw.workingDays
+        .map(day => DAY_NAMES.indexOf(String(day).toLowerCase().slice(0, 3)))
+        .filter(day => day >= 0)
+    : DEFAULT_SCHEDULE.workingDays;
+
+  return {
+    enabled: raw.enabled === true,
+    workingDays,
+    workingHours:
+      raw.workingHours === null ? null : parseRange(raw.workingHours, DEFAULT_WORKING_HOURS),
+    quietHours: raw.quietHours === null ? null : parseRange(raw.quietHours, DEFAULT_QUIET_HOURS),
+    afterHoursNudge: raw.afterHoursNudge !== false
+  };
+}
+
+/**
+ * Read the schedule from the configuration
+ */
+export function getSchedule(): ISchedule {
+  return parseSchedule(vscode.workspace.getConfiguration('kubito').get<unknown>('schedule'));
+}
+
+/**
+ * Check whether a time falls within a range, handling ranges that wrap around midnight
+ */
+export function isInMinuteRange(date: Date, range: IMinuteRange): boolean {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+
+  if (range.start <= range.end) {
+    return minutes >= range.start && minutes < range.end;
+  }
+  return minutes >= range.start || minutes < range.end;
+}
+
+/**
+ * Whether the date is within working days and hours (always true when the schedule is off)
+ * Without working hours, any time of a working day counts
+ */
+export function isWorkingTime(schedule: ISchedule, date: Date = new Date()): boolean {
+  if (!schedule.enabled) {
+    return true;
+  }
+
+  return (
+    schedule.workingDays.includes(date.getDay()) &&
+    (schedule.workingHours === null || isInMinuteRange(date, schedule.workingHours))
+  );
+}
+
+/**
+ * Whether the date is within quiet hours (always false when the schedule is off)
+ */
+export function isQuietTime(schedule: ISchedule, date: Date = new Date()): boolean {
+  return (
+    schedule.enabled && schedule.quietHours !== null && isInMinuteRange(date, schedule.quietHours)
+  );
+}
@@ -0,0 +1,155 @@
+/**
+ * URI handler for Kubito
+ *
+ * Lets build scripts and git hooks outside VS Code make Kubito talk:
+ * - `vscode://Kubit.vscode-kubito/react?event=buildFailed` shows a known reaction
+ * - `vscode://Kubit.vscode-kubito/say?text=Done!&type=emoji` shows any text after the
+ *   user confirms it, since any web page or app can open such links
+ * Requests are rate limited so a looping script cannot flood the bubble.
+ */
+
+import * as vscode from 'vscode';
+import { t } from '../localization';
+import { IMessage } from '../webview/protocol';
+import { toApiMessage } from './extensionApi';
+import { RateLimiter } from './rateLimiter';
+
+/**
+ * Reactions accepted without confirmation
+ */
+export type UriReaction =
+  | 'buildSucceeded'
+  | 'buildFailed'
+  | 'testsPassed'
+  | 'testsFailed'
+  | 'deployed'
+  | 'committed'
+  | 'pushed';
+
+/**
+ * Messages shown for each reaction
+ */
+const URI_REACTIONS: Record<UriReaction, () => IMessage> = {
+  buildSucceeded: () => ({ type: 'emoji', content: '🎉' }),
+  buildFailed: () => ({ type: 'emoji', content: '💥' }),
+  testsPassed: () => ({ type: 'emoji', content: '✅' }),
+  testsFailed: () => ({ type: 'emoji', content: '❌' }),
+  deployed: () => ({ type: 'emoji', content: '🚀' }),
+  committed: () => ({ type: 'text', content: t('messages.committed') }),
+  pushed: () => ({ type: 'text', content: t('messages.pushed') })
+};
+
+/**
+ * Request read from a Kubito URI
+ */
+export type UriRequest =
+  | { readonly kind: 'react'; readonly message: IMessage } // Allowlisted, shown directly
+  | { readonly kind: 'say'; readonly message: IMessage }; // Free text, needs confirmation
+
+/**
+ * Parameters read from Kubito URIs
+ */
+const URI_PARAMETERS = ['event', 'text', 'type'] as const;
+
+/**
+ * Read the parameters of a URI query
+ * VS Code already percent-decodes the query of the URIs it hands to extensions, so it is
+ * not decoded again (`+` and `%` stay as they are). A part that does not start with a
+ * parameter name and `=` belongs to the previous value, and only the first `=` separates a
+ * name from its value, so `&` and `=` inside a text survive
+ * @param query - Decoded query of a URI
+ * @returns Value of each known parameter found
+ */
+export function parseUriQuery(query: string): Map<string, string> {
+  const params = new Map<string, string>();
+  let current: string | undefined; // Parameter the next unnamed part belongs to
+
+  query.split('&').forEach(part => {
+    const name = /^([A-Za-z][\w.-]*)=/.exec(part)?.[1];
+
+    if (name !== undefined) {
+      const known = (URI_PARAMETERS as readonly string[]).includes(name) && !params.has(name);
+      current = known ? name : undefined;
+      if (known) {
+        params.set(name, part.slice(name.length + 1));
+      }
+    } else if (current !== undefined) {
+      params.set(current, `${params.get(current) ?? ''}&${part}`);
+    }
+  });
+
+  return params;
+}
+
+/**
+ * Read the request of a Kubito URI
+ * @param uri - URI opened by another application
+ * @returns The request, or undefined when the path or parameters are invalid
+ */
+export function parseKubitoUri(uri: vscode.Uri): UriRequest | undefined {
+  const params = parseUriQuery(uri.query);
+
+  switch (uri.path.replace(/\/+$/, '')) {
+    case '/react': {
+      const event = params.get('event') ?? '';
+      const createMessage = Object.prototype.hasOwnProperty.call(URI_REACTIONS, event)
+        ? URI_REACTIONS[event as UriReaction]
+        : undefined;
+      return createMessage ? { kind: 'react', message: createMessage() } : undefined;
+    }
+
+    case '/say': {
+      const message = toApiMessage({
+        type: params.get('type') ?? undefined,
+        content: params.get('text') ?? ''
+      });
+      return message ? { kind: 'say', message } : undefined;
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Routes Kubito URIs to speech bubbles
+ */
+export class KubitoUriHandler implements vscode.UriHandler {
+  private readonly rateLimiter = new RateLimiter(5, 60 * 1000, 2 * 1000);
+
+  /**
+   * @param showMessage - Show a message through Kubito
+   */
+  constructor(private readonly showMessage: (message: IMessage) => void) {}
+
+  /**
+   * Handle a URI opened by another application
+   * @param uri - The opened URI
+   */
+  public async handleUri(uri: vscode.Uri): Promise<void> {
+    // Invalid links count too, so a looping script cannot flood warnings either
+    if (!this.rateLimiter.tryAcquire()) {
+      return;
+    }
+
+    const request = parseKubitoUri(uri);
+    if (!request) {
+      void vscode.window.showWarningMessage(t('links.unsupported', { path: uri.path }));
+      return;
+    }
+
+    if (request.kind === 'say') {
+      const showLabel = t('links.show');
+      const choice = await vscode.window.showInformationMessage(
+        t('links.confirmSay', { text: request.message.content }),
+        showLabel,
+        t('links.ignore')
+      );
+      if (choice !== showLabel) {
+        return;
+      }
+    }
+
+    this.showMessage(request.message);
+  }
+}
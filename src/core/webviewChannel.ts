@@ -0,0 +1,106 @@
+/**
+ * Webview channel for Kubito
+ *
+ * Sends host commands to the Kubito webview through the handshake of the message protocol.
+ * Features:
+ * - Commands wait until the webview script posted `ready`
+ * - A full state snapshot on every `ready`, since the view reloads its HTML each time it is
+ *   shown again (the webview is not kept alive while hidden)
+ * - Only the latest speech bubble is kept while the view is loading or hidden
+ */
+
+import { HostToWebviewMessage, IMessage, PROTOCOL_VERSION } from '../webview/protocol';
+
+/**
+ * Webview the channel posts to (a `vscode.Webview`)
+ */
+export interface IWebviewTarget {
+  postMessage(message: HostToWebviewMessage): PromiseLike<boolean>;
+}
+
+/**
+ * Handshake and message queue between the extension host and one webview
+ */
+export class WebviewChannel {
+  private target: IWebviewTarget | undefined;
+  private isReady = false; // Set once the webview script answered the handshake
+  private pendingMessage: IMessage | undefined; // Latest speech bubble sent while not ready
+
+  /**
+   * @param getState - Commands restoring the whole webview state (translations, sprites,
+   * config, custom messages, resting and focus flags), sent on every `ready`
+   */
+  constructor(private readonly getState: () => HostToWebviewMessage[]) {}
+
+  /**
+   * Send commands to a new webview, once its script is ready
+   * @param target - The webview
+   */
+  public attach(target: IWebviewTarget): void {
+    this.target = target;
+    this.isReady = false;
+  }
+
+  /**
+   * Stop sending commands, the webview was disposed
+   */
+  public detach(): void {
+    this.target = undefined;
+    this.isReady = false;
+    this.pendingMessage = undefined;
+  }
+
+  /**
+   * Wait for a new handshake, the webview script is reloaded when the view is shown again
+   */
+  public reset(): void {
+    this.isReady = false;
+  }
+
+  /**
+   * Answer the webview handshake, restore its state and show the speech bubble it missed
+   * A version mismatch means the webview script is outdated (e.g. not rebuilt); the webview
+   * reports it and keeps running, since unknown commands are ignored by both sides
+   * @param version - Protocol version the webview script was built with
+   */
+  public handleReady(version: number): void {
+    if (!this.target) {
+      return;
+    }
+
+    this.isReady = true;
+    this.post({
+      command: 'readyAck',
+      version: PROTOCOL_VERSION,
+      compatible: version === PROTOCOL_VERSION
+    });
+    this.getState().forEach(message => this.post(message));
+
+    const pendingMessage = this.pendingMessage;
+    this.pendingMessage = undefined;
+    if (pendingMessage) {
+      this.post({ command: 'showMessage', message: pendingMessage });
+    }
+  }
+
+  /**
+   * Send a command to the webview
+   * While the webview is not ready, state commands are dropped (the snapshot sent on `ready`
+   * covers them) and only the latest speech bubble is kept
+   * @param message - Command to send
+   */
+  public post(message: HostToWebviewMessage): void {
+    if (!this.target) {
+      return;
+    }
+
+    if (!this.isReady) {
+      if (message.command === 'showMessage') {
+        this.pendingMessage = message.message;
+      }
+      return;
+    }
+
+    void this.target.postMessage(message);
+  }
+}
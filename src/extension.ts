@@ -3,18 +3,80 @@ import {
   initializeLocalization,
   t,
   formatTranslation,
-  getCurrentTranslations
+  getCurrentTranslations,
+  getCurrentLanguage,
+  getLanguageDirection,
+  getAllTranslations,
+  getRegionalLanguages
 } from './localization';
-import { ProductivityManager } from './core/productivity';
-
-/**
- * Message interface for Kubito's communication system
- */
-interface IMessage {
-  readonly type: 'emoji' | 'text' | 'image';
-  readonly content: string;
-  readonly alt?: string;
-}
+import {
+  validateTranslations,
+  isTranslationReportClean,
+  extractWebviewMessageKeys,
+  formatTranslationReport
+} from './localization/validation';
+import { CONTEXTUAL_MESSAGES } from './contextual/context';
+import {
+  ProductivityManager,
+  IProductivityMessage,
+  ReminderAction,
+  REMINDER_SNOOZE_MINUTES,
+  formatDuration
+} from './core/productivity';
+import {
+  MetricsHistory,
+  IBranchSummary,
+  IMetricsSummary,
+  MetricsPeriod,
+  getDateKey,
+  isDateKey,
+  getRecentDateKeys,
+  getCurrentWorkspace,
+  createEmptyDelta
+} from './core/metricsHistory';
+import { ProductivityDashboard, IDashboardData } from './core/dashboard';
+import {
+  ExportFormat,
+  IExportOptions,
+  buildExportRecords,
+  createAnonymizationSalt,
+  toCsv,
+  toJson
+} from './core/metricsExport';
+import { PomodoroTimer, PomodoroPhase } from './core/pomodoro';
+import { FocusMode, DeferredCounts } from './core/focusMode';
+import { getSchedule } from './core/schedule';
+import {
+  CUSTOM_MESSAGES_FILE,
+  ICustomMessagePack,
+  loadCustomMessages
+} from './core/customMessages';
+import {
+  IMessage,
+  IWebviewCustomMessagePack,
+  HostToWebviewMessage,
+  WebviewInteraction,
+  isWebviewToHostMessage
+} from './webview/protocol';
+import { WebviewChannel } from './core/webviewChannel';
+import { IKubitoApi, KubitoApi } from './core/extensionApi';
+import { parseSayArguments } from './core/sayCommand';
+import { KubitoUriHandler } from './core/uriHandler';
+import {
+  DEFAULT_TICKET_PATTERN,
+  GitIntegration,
+  GitEvent,
+  IGitEventInfo,
+  IRepositoryBranch,
+  parseTicketId
+} from './core/gitIntegration';
+import { ConflictChangeKind, IConflictChange, MergeConflictTracker } from './core/mergeConflicts';
+import {
+  DiagnosticsWatcher,
+  getDiagnosticsMessageKey,
+  IDiagnosticsChange
+} from './core/diagnosticsWatcher';
+import { RateLimiter } from './core/rateLimiter';
 
 /**
  * Interface for the Kubito webview provider that extends VS Code's WebviewViewProvider
@@ -34,9 +96,24 @@ interface IKubitoWebviewProvider extends vscode.WebviewViewProvider {
  */
 let kubitoWebviewProvider: KubitoWebviewProvider | undefined;
 
+/**
+ * Global reference to the Pomodoro timer
+ */
+let pomodoroTimer: PomodoroTimer | undefined;
+
+/**
+ * Global reference to focus mode (silences Kubito)
+ */
+let focusMode: FocusMode | undefined;
+
+/**
+ * Global reference to the Git integration (commits, pushes, branch switches...)
+ */
+let gitIntegration: GitIntegration | undefined;
+
 /**
  * Check if a specific event type is enabled in user settings
- * @param eventType - The event type to check (fileSave, gitCommit, gitPush)
+ * @param eventType - The event type to check (fileSave, gitCommit, gitPush, diagnostics...)
  * @returns Whether the event is enabled
  */
 function isEventEnabled(eventType: string): boolean {
@@ -47,8 +124,9 @@ function isEventEnabled(eventType: string): boolean {
 /**
  * Extension activation function
  * @param context - VS Code extension context
+ * @returns Kubito's API for other extensions
  */
-export function activate(context: vscode.ExtensionContext): void {
+export function activate(context: vscode.ExtensionContext): IKubitoApi {
   // Initialize the localization system
   initializeLocalization();
 
@@ -60,6 +138,21 @@ export function activate(context: vscode.ExtensionContext): void {
     vscode.window.registerWebviewViewProvider('kubito', kubitoWebviewProvider)
   );
 
+  // Create the Pomodoro timer (Kubito rests during breaks)
+  pomodoroTimer = new PomodoroTimer({
+    onPhaseStart: (phase, minutes) => kubitoWebviewProvider?.startPomodoroPhase(phase, minutes),
+    onWorkCompleted: () => void kubitoWebviewProvider?.recordPomodoro(),
+    onStop: () => kubitoWebviewProvider?.setResting(false)
+  });
+  context.subscriptions.push(pomodoroTimer);
+
+  // Create focus mode (held back messages are summarized when it ends)
+  focusMode = new FocusMode({
+    onChange: active => kubitoWebviewProvider?.setFocusMode(active),
+    onEnd: deferred => showFocusSummary(deferred)
+  });
+  context.subscriptions.push(focusMode);
+
   // Register commands
   registerCommands(context);
 
@@ -69,8 +162,34 @@ export function activate(context: vscode.ExtensionContext): void {
   // Listen for configuration changes
   registerConfigurationListener(context);
 
+  // Reload custom messages when their sources change
+  registerCustomMessageListeners(context);
+
+  // Let build scripts and git hooks make Kubito talk through vscode:// links
+  context.subscriptions.push(
+    vscode.window.registerUriHandler(
+      new KubitoUriHandler(message => {
+        if (!focusMode?.defer('reaction')) {
+          kubitoWebviewProvider?.triggerMessage(message);
+        }
+      })
+    )
+  );
+
   // Auto-show Kubito if configured
   void autoShowKubito();
+
+  // Let other extensions make Kubito talk (rate limited, held back in focus mode)
+  const provider = kubitoWebviewProvider;
+  const api = new KubitoApi({
+    canShowMessage: () => provider.isVisible(),
+    holdBack: () => focusMode?.defer('reaction') ?? false,
+    showMessage: message => provider.triggerMessage(message),
+    onDidInteract: provider.onDidInteract
+  });
+  context.subscriptions.push(api);
+
+  return api;
 }
 
 /**
@@ -94,6 +213,14 @@ function registerCommands(context: vscode.ExtensionContext): void {
     }
   );
 
+  // Command to make Kubito say something from keybindings, tasks or other extensions
+  const sayCommand = vscode.commands.registerCommand(
+    'kubito.say',
+    async (args?: unknown): Promise<void> => {
+      await sayMessage(args);
+    }
+  );
+
   // Command to provide instructions for hiding Kubito
   // Note: Webview panels cannot be programmatically hidden, only collapsed manually
   const hideKubitoCommand = vscode.commands.registerCommand(
@@ -120,55 +247,146 @@ function registerCommands(context: vscode.ExtensionContext): void {
     async (): Promise<void> => {
       if (kubitoWebviewProvider) {
         const insights = kubitoWebviewProvider.getProductivityInsights();
+        let message: string;
         if (insights) {
-          const message = `📊 **Productivity Metrics**
+          message = `📊 **${t('productivity.metrics.title')}**
 
-⏱️ Session: ${insights.sessionDuration}
-📝 ${insights.linesPerHour} lines/hour
-📂 ${insights.filesModified} files modified
-🏆 Score: ${insights.productivityScore}/100
-💻 Main language: ${insights.mostActiveLanguage}`;
-
-          void vscode.window.showInformationMessage(message, { modal: false });
+⏱️ ${t('productivity.metrics.sessionDuration', { duration: insights.sessionDuration })}
+📝 ${t('productivity.metrics.linesPerHour', { count: insights.linesPerHour })}
+📂 ${t('productivity.metrics.filesModified', { count: insights.filesModified })}
+🏆 ${t('productivity.metrics.productivityScore', { score: insights.productivityScore })}
+💻 ${t('productivity.metrics.mostActiveLanguage', { language: insights.mostActiveLanguage })}`;
         } else {
-          void vscode.window.showInformationMessage(
-            'No metrics available yet. Start coding to see your productivity stats!'
-          );
+          message = t('productivity.metrics.noMetrics');
         }
+
+        await showMetricsWithHistory(kubitoWebviewProvider, message);
+      }
+    }
+  );
+
+  // Command to open the productivity dashboard panel
+  const openDashboardCommand = vscode.commands.registerCommand(
+    'kubito.openDashboard',
+    async (): Promise<void> => {
+      const provider = kubitoWebviewProvider;
+      if (provider) {
+        ProductivityDashboard.show(() => provider.getDashboardData());
+      }
+    }
+  );
+
+  // Command to export the metrics history to a CSV or JSON file
+  const exportMetricsCommand = vscode.commands.registerCommand(
+    'kubito.exportMetrics',
+    async (): Promise<void> => {
+      if (kubitoWebviewProvider) {
+        await exportMetrics(kubitoWebviewProvider, context.secrets);
+      }
+    }
+  );
+
+  // Command to check translation files for missing keys and placeholders
+  const validateTranslationsCommand = vscode.commands.registerCommand(
+    'kubito.validateTranslations',
+    async (): Promise<void> => {
+      await showTranslationReport(context.extensionUri);
+    }
+  );
+
+  // Commands to control the Pomodoro timer
+  const startPomodoroCommand = vscode.commands.registerCommand('kubito.startPomodoro', (): void =>
+    pomodoroTimer?.start()
+  );
+
+  const pausePomodoroCommand = vscode.commands.registerCommand('kubito.pausePomodoro', (): void =>
+    pomodoroTimer?.pause()
+  );
+
+  const skipPomodoroPhaseCommand = vscode.commands.registerCommand(
+    'kubito.skipPomodoroPhase',
+    (): void => pomodoroTimer?.skip()
+  );
+
+  const resetPomodoroCommand = vscode.commands.registerCommand('kubito.resetPomodoro', (): void =>
+    pomodoroTimer?.reset()
+  );
+
+  // Command to silence Kubito for a while, or turn focus mode off
+  const toggleFocusModeCommand = vscode.commands.registerCommand(
+    'kubito.toggleFocusMode',
+    async (minutes?: number): Promise<void> => {
+      if (!focusMode) {
+        return;
+      }
+
+      if (focusMode.isActive()) {
+        focusMode.disable();
+        return;
+      }
+
+      if (typeof minutes === 'number') {
+        focusMode.enable(minutes > 0 ? minutes : undefined);
+        return;
+      }
+
+      const selection = await vscode.window.showQuickPick(
+        FOCUS_DURATIONS.map(minutes => ({ label: getFocusDurationLabel(minutes), minutes })),
+        { title: 'Kubito: Focus Mode', placeHolder: t('focusMode.durationPrompt') }
+      );
+      if (selection) {
+        focusMode.enable(selection.minutes);
       }
     }
   );
 
+  // Commands to enter and leave Zen Mode, so focus mode can follow it
+  const enterZenModeCommand = vscode.commands.registerCommand(
+    'kubito.enterZenMode',
+    async (): Promise<void> => {
+      // Zen Mode can only be toggled; the command's enablement (`!inZenMode`) keeps this
+      // from turning off a Zen Mode that is already on
+      await vscode.commands.executeCommand('workbench.action.toggleZenMode');
+      focusMode?.setAutoReason('zenMode', true);
+    }
+  );
+
+  const exitZenModeCommand = vscode.commands.registerCommand(
+    'kubito.exitZenMode',
+    async (): Promise<void> => {
+      await vscode.commands.executeCommand('workbench.action.exitZenMode');
+      focusMode?.setAutoReason('zenMode', false);
+    }
+  );
+
   // Command to enable Christmas mode
   const enableChristmasCommand = vscode.commands.registerCommand(
     'kubito.enableChristmasMode',
     async (): Promise<void> => {
       const config = vscode.workspace.getConfiguration('kubito');
       await config.update('christmasMode', 'enabled', vscode.ConfigurationTarget.Global);
+      // The configuration listener swaps sprites and decorations in place
 
       // Show confirmation with option to disable
+      const disableLabel = t('notifications.disable');
+      const settingsLabel = t('notifications.settings');
       const selection = await vscode.window.showInformationMessage(
-        '🎄 Christmas mode enabled! Enjoy the festive decorations!',
-        'Disable',
-        'Settings',
-        'OK'
+        t('notifications.christmasEnabled'),
+        disableLabel,
+        settingsLabel,
+        t('notifications.ok')
       );
 
-      if (selection === 'Disable') {
+      if (selection === disableLabel) {
         await vscode.commands.executeCommand('kubito.disableChristmasMode');
         return;
-      } else if (selection === 'Settings') {
+      } else if (selection === settingsLabel) {
         await vscode.commands.executeCommand(
           'workbench.action.openSettings',
           'kubito.christmasMode'
         );
         return;
       }
-
-      // Refresh the webview to apply changes
-      if (kubitoWebviewProvider) {
-        kubitoWebviewProvider.refresh();
-      }
     }
   );
 
@@ -178,77 +396,628 @@ function registerCommands(context: vscode.ExtensionContext): void {
     async (): Promise<void> => {
       const config = vscode.workspace.getConfiguration('kubito');
       await config.update('christmasMode', 'disabled', vscode.ConfigurationTarget.Global);
+      // The configuration listener swaps sprites and decorations in place
 
       // Show confirmation with option to re-enable
+      const reenableLabel = t('notifications.reenable');
+      const settingsLabel = t('notifications.settings');
       const selection = await vscode.window.showInformationMessage(
-        '❌ Christmas mode disabled. You can re-enable it anytime!',
-        'Re-enable',
-        'Settings',
-        'OK'
+        t('notifications.christmasDisabled'),
+        reenableLabel,
+        settingsLabel,
+        t('notifications.ok')
       );
 
-      if (selection === 'Re-enable') {
+      if (selection === reenableLabel) {
         await vscode.commands.executeCommand('kubito.enableChristmasMode');
         return;
-      } else if (selection === 'Settings') {
+      } else if (selection === settingsLabel) {
         await vscode.commands.executeCommand(
           'workbench.action.openSettings',
           'kubito.christmasMode'
         );
         return;
       }
-
-      // Refresh the webview to apply changes
-      if (kubitoWebviewProvider) {
-        kubitoWebviewProvider.refresh();
-      }
     }
   );
 
   context.subscriptions.push(
     showKubitoCommand,
+    sayCommand,
     hideKubitoCommand,
     openEventSettingsCommand,
     showMetricsCommand,
+    openDashboardCommand,
+    exportMetricsCommand,
+    validateTranslationsCommand,
+    startPomodoroCommand,
+    pausePomodoroCommand,
+    skipPomodoroPhaseCommand,
+    resetPomodoroCommand,
+    toggleFocusModeCommand,
+    enterZenModeCommand,
+    exitZenModeCommand,
     enableChristmasCommand,
     disableChristmasCommand
   );
 }
 
 /**
- * Register Git event listeners using file system watchers
- * @param context - VS Code extension context for managing listener lifecycle
+ * Durations offered when turning focus mode on, in minutes (undefined = until turned off)
  */
-function registerGitListeners(context: vscode.ExtensionContext): void {
-  // Detect successful commits - when Git log is updated
-  const logsWatcher = vscode.workspace.createFileSystemWatcher('**/.git/logs/HEAD');
+const FOCUS_DURATIONS: readonly (number | undefined)[] = [30, 60, 120, undefined];
+
+/**
+ * Get the translated label of a focus mode duration
+ * @param minutes - Duration in minutes, undefined when focus mode stays on until turned off
+ */
+function getFocusDurationLabel(minutes: number | undefined): string {
+  if (minutes === undefined) {
+    return t('focusMode.untilTurnedOff');
+  }
+  return minutes % 60 === 0
+    ? t('focusMode.hours', { hours: minutes / 60 })
+    : t('focusMode.minutes', { minutes });
+}
 
-  logsWatcher.onDidChange(() => {
-    if (!kubitoWebviewProvider || !isEventEnabled('gitCommit')) {
+/**
+ * Make Kubito say the message given as `kubito.say` arguments, or ask for it
+ * @param args - Command arguments, undefined when run from the Command Palette
+ */
+async function sayMessage(args: unknown): Promise<void> {
+  let content = args;
+  if (content === undefined) {
+    const text = await vscode.window.showInputBox({
+      title: t('say.title'),
+      prompt: t('say.prompt'),
+      placeHolder: t('say.placeholder')
+    });
+    if (!text?.trim()) {
       return;
     }
+    content = text;
+  }
 
-    kubitoWebviewProvider.triggerMessage({
-      content: t('messages.committed'),
-      type: 'text'
-    });
-  });
+  const message = parseSayArguments(content);
+  if (!message) {
+    void vscode.window.showWarningMessage(t('say.invalidArguments'));
+    return;
+  }
 
-  // Detect push/pull operations - when remote ref logs change (more reliable)
-  const refsLogsWatcher = vscode.workspace.createFileSystemWatcher('**/.git/logs/refs/remotes/**');
+  // High priority messages are shown even in focus mode
+  if (!kubitoWebviewProvider || (message.priority !== 'high' && focusMode?.defer('reaction'))) {
+    return;
+  }
+
+  kubitoWebviewProvider.triggerMessage(message);
+}
+
+/**
+ * Tell the user what Kubito held back while focus mode was on
+ * @param deferred - Number of held back messages per kind
+ */
+function showFocusSummary(deferred: DeferredCounts): void {
+  const held = [
+    deferred.reaction > 0 ? t('focusMode.reactions', { count: deferred.reaction }) : '',
+    deferred.reminder > 0 ? t('focusMode.reminders', { count: deferred.reminder }) : '',
+    deferred.metrics > 0 ? t('focusMode.metrics', { count: deferred.metrics }) : ''
+  ].filter(Boolean);
+
+  const message =
+    held.length > 0
+      ? t('focusMode.overWithSummary', { items: held.join(t('focusMode.listSeparator')) })
+      : t('focusMode.over');
+
+  if (kubitoWebviewProvider?.isVisible()) {
+    kubitoWebviewProvider.triggerMessage({ type: 'text', content: message });
+  } else {
+    void vscode.window.showInformationMessage(message);
+  }
+}
+
+/**
+ * History periods offered by the metrics command, in display order
+ */
+const METRICS_PERIODS: readonly MetricsPeriod[] = ['today', 'yesterday', 'last7Days', 'last30Days'];
+
+/**
+ * Get the translated label of a history period
+ * @param period - The history period
+ */
+function getMetricsPeriodLabel(period: MetricsPeriod): string {
+  return t(`productivity.periods.${period}`);
+}
 
-  refsLogsWatcher.onDidChange(() => {
-    if (!kubitoWebviewProvider || !isEventEnabled('gitPush')) {
+/**
+ * Number of days charted by the productivity dashboard
+ */
+const DASHBOARD_DAYS = 30;
+
+/**
+ * Show a metrics message with buttons to browse the daily history
+ * @param provider - Webview provider that owns the metrics history
+ * @param message - Message to show first
+ */
+async function showMetricsWithHistory(
+  provider: KubitoWebviewProvider,
+  message: string
+): Promise<void> {
+  let currentMessage = message;
+
+  // Keep offering the other periods until the user dismisses the notification
+  for (;;) {
+    const selection = await vscode.window.showInformationMessage(
+      currentMessage,
+      { modal: false },
+      ...METRICS_PERIODS.map(getMetricsPeriodLabel),
+      t('productivity.metrics.timePerBranch')
+    );
+
+    if (selection === t('productivity.metrics.timePerBranch')) {
+      await showTimePerBranch(provider);
       return;
     }
 
-    kubitoWebviewProvider.triggerMessage({
-      content: t('messages.pushed'),
-      type: 'text'
-    });
+    const period = METRICS_PERIODS.find(
+      candidate => getMetricsPeriodLabel(candidate) === selection
+    );
+    if (!period) {
+      return;
+    }
+
+    const summary = await provider.getMetricsSummary(period);
+    currentMessage = formatMetricsSummary(summary);
+  }
+}
+
+/**
+ * Format a history summary for display in a notification
+ * @param summary - Aggregated metrics for a period
+ * @returns Human readable summary
+ */
+function formatMetricsSummary(summary: IMetricsSummary): string {
+  const mostActiveLanguage =
+    Object.entries(summary.languages).sort(([, a], [, b]) => b - a)[0]?.[0] ||
+    t('productivity.metrics.unknownLanguage');
+
+  return `📊 **${getMetricsPeriodLabel(summary.period)}**
+
+⏱️ ${t('productivity.metrics.activeTime', { duration: formatDuration(summary.activeTimeMs) })}
+📝 ${t('productivity.metrics.linesChanged', {
+    written: summary.linesWritten,
+    deleted: summary.linesDeleted
+  })}
+📂 ${t('productivity.metrics.filesModified', { count: summary.filesModified })}
+📅 ${t('productivity.metrics.daysActive', { count: summary.daysActive })}
+🍅 ${t('productivity.metrics.pomodorosCompleted', { count: summary.pomodorosCompleted })}
+💻 ${t('productivity.metrics.mostActiveLanguage', { language: mostActiveLanguage })}`;
+}
+
+/**
+ * Get the pattern of ticket IDs in branch names from the settings
+ */
+function getTicketPattern(): string {
+  return vscode.workspace
+    .getConfiguration('kubito.productivity')
+    .get<string>('ticketPattern', DEFAULT_TICKET_PATTERN);
+}
+
+/**
+ * Show the time spent on each branch over the last 30 days, most active first
+ * @param provider - Webview provider that owns the metrics history
+ */
+async function showTimePerBranch(provider: KubitoWebviewProvider): Promise<void> {
+  const summaries = await provider.getBranchSummaries('last30Days');
+  if (summaries.length === 0) {
+    void vscode.window.showInformationMessage(t('productivity.metrics.noBranchActivity'));
+    return;
+  }
+
+  const pattern = getTicketPattern();
+  const showRepository = new Set(summaries.map(summary => summary.repository)).size > 1;
+  await vscode.window.showQuickPick(
+    summaries.map(summary => formatBranchSummary(summary, pattern, showRepository)),
+    {
+      title: `Kubito: ${t('productivity.metrics.timePerBranch')} (${getMetricsPeriodLabel('last30Days')})`,
+      matchOnDescription: true,
+      matchOnDetail: true
+    }
+  );
+}
+
+/**
+ * Format the metrics of a branch as a quick pick item
+ * @param summary - Aggregated metrics of the branch
+ * @param pattern - Pattern of ticket IDs in branch names
+ * @param showRepository - Whether to name the repository (branches of several repositories)
+ */
+function formatBranchSummary(
+  summary: IBranchSummary,
+  pattern: string,
+  showRepository: boolean
+): vscode.QuickPickItem {
+  const ticket = parseTicketId(summary.branch, pattern);
+  const description = [showRepository ? summary.repository : '', ticket ?? '']
+    .filter(Boolean)
+    .join(' · ');
+
+  return {
+    label: `$(git-branch) ${summary.branch}`,
+    ...(description ? { description } : {}),
+    detail: [
+      formatDuration(summary.activeTimeMs),
+      t('productivity.metrics.linesChanged', {
+        written: summary.linesWritten,
+        deleted: summary.linesDeleted
+      }),
+      t('productivity.metrics.filesModified', { count: summary.filesModified })
+    ].join(' · ')
+  };
+}
+
+/**
+ * Secret storage key of the salt used to anonymize exports
+ */
+const EXPORT_SALT_KEY = 'kubito.exportSalt';
+
+/**
+ * Get the salt of anonymized exports, generating it on the first export
+ * @param secrets - Secret storage of the extension
+ */
+async function getExportSalt(secrets: vscode.SecretStorage): Promise<string> {
+  const stored = await secrets.get(EXPORT_SALT_KEY);
+  if (stored) {
+    return stored;
+  }
+
+  const salt = createAnonymizationSalt();
+  await secrets.store(EXPORT_SALT_KEY, salt);
+  return salt;
+}
+
+/**
+ * Ask for the export options and write the metrics history to a file
+ * @param provider - Webview provider that owns the metrics history
+ * @param secrets - Secret storage holding the anonymization salt
+ */
+async function exportMetrics(
+  provider: KubitoWebviewProvider,
+  secrets: vscode.SecretStorage
+): Promise<void> {
+  // Persist the running session so today's numbers are included
+  await provider.flushMetrics();
+  const history = provider.getMetricsHistory().getAll();
+
+  if (history.length === 0) {
+    void vscode.window.showInformationMessage(t('productivity.metrics.noMetrics'));
+    return;
+  }
+
+  const range = await pickExportRange();
+  if (!range) {
+    return;
+  }
+
+  // Only ask for a workspace when there is more than one to choose from
+  const workspaces = new Map<string, string>();
+  history.forEach(entry => workspaces.set(entry.workspace, entry.workspaceName));
+
+  let workspace: string | undefined;
+  if (workspaces.size > 1) {
+    const allWorkspaces = {
+      label: t('productivity.export.allWorkspaces'),
+      id: undefined as string | undefined
+    };
+    const selection = await vscode.window.showQuickPick(
+      [
+        allWorkspaces,
+        ...Array.from(workspaces.entries()).map(([id, name]) => ({ label: name, id }))
+      ],
+      {
+        title: t('productivity.export.title'),
+        placeHolder: t('productivity.export.workspacePlaceholder')
+      }
+    );
+    if (!selection) {
+      return;
+    }
+    workspace = selection.id;
+  }
+
+  const formatSelection = await vscode.window.showQuickPick(
+    [
+      {
+        label: 'CSV',
+        description: t('productivity.export.csvDescription'),
+        format: 'csv' as const
+      },
+      {
+        label: 'JSON',
+        description: t('productivity.export.jsonDescription'),
+        format: 'json' as const
+      }
+    ],
+    {
+      title: t('productivity.export.title'),
+      placeHolder: t('productivity.export.formatPlaceholder')
+    }
+  );
+  if (!formatSelection) {
+    return;
+  }
+  const format: ExportFormat = formatSelection.format;
+
+  const options: IExportOptions = {
+    from: range.from,
+    to: range.to,
+    anonymize: vscode.workspace
+      .getConfiguration('kubito.productivity')
+      .get<boolean>('anonymizeExports', true),
+    salt: await getExportSalt(secrets),
+    ...(workspace !== undefined ? { workspace } : {})
+  };
+
+  const records = buildExportRecords(history, options);
+  if (records.length === 0) {
+    void vscode.window.showInformationMessage(t('productivity.export.noRecords'));
+    return;
+  }
+
+  const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const fileName = `kubito-metrics-${range.from}-to-${range.to}.${format}`;
+  const target = await vscode.window.showSaveDialog({
+    title: t('productivity.export.title'),
+    ...(defaultFolder ? { defaultUri: vscode.Uri.joinPath(defaultFolder, fileName) } : {}),
+    filters: format === 'csv' ? { CSV: ['csv'] } : { JSON: ['json'] }
+  });
+  if (!target) {
+    return;
+  }
+
+  const content = format === 'csv' ? toCsv(records) : toJson(records, options);
+
+  try {
+    await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    void vscode.window.showErrorMessage(t('productivity.export.failed', { error: errorMessage }));
+    return;
+  }
+
+  const openLabel = t('productivity.export.open');
+  const selection = await vscode.window.showInformationMessage(
+    t('productivity.export.exported', { count: records.length }),
+    openLabel
+  );
+  if (selection === openLabel) {
+    await vscode.window.showTextDocument(target);
+  }
+}
+
+/**
+ * Validate all translations and open the report
+ * Checks the message keys used by the webview script and the contextual messages
+ * @param extensionUri - Extension location, used to read the webview script
+ */
+async function showTranslationReport(extensionUri: vscode.Uri): Promise<void> {
+  const usedKeys = Object.values(CONTEXTUAL_MESSAGES).flat();
+
+  try {
+    const script = await vscode.workspace.fs.readFile(
+      vscode.Uri.joinPath(extensionUri, 'media', 'kubito.js')
+    );
+    usedKeys.push(...extractWebviewMessageKeys(Buffer.from(script).toString('utf8')));
+  } catch {
+    // Without the compiled webview only the contextual messages are checked
+  }
+
+  const report = validateTranslations(getAllTranslations(), usedKeys, getRegionalLanguages());
+  const document = await vscode.workspace.openTextDocument({
+    content: formatTranslationReport(report),
+    language: 'markdown'
+  });
+  await vscode.window.showTextDocument(document, { preview: true });
+
+  if (isTranslationReportClean(report)) {
+    void vscode.window.showInformationMessage(t('notifications.translationsComplete'));
+  } else {
+    void vscode.window.showWarningMessage(t('notifications.translationsHaveProblems'));
+  }
+}
+
+/**
+ * Ask for the date range to export
+ * @returns First and last date keys, or undefined if cancelled
+ */
+async function pickExportRange(): Promise<{ from: string; to: string } | undefined> {
+  const today = getDateKey(new Date());
+  const presets = [
+    { label: t('productivity.periods.last7Days'), days: 7 },
+    { label: t('productivity.periods.last30Days'), days: 30 },
+    { label: t('productivity.periods.last90Days'), days: 90 },
+    { label: t('productivity.export.customRange'), days: 0 }
+  ];
+
+  const selection = await vscode.window.showQuickPick(presets, {
+    title: t('productivity.export.title'),
+    placeHolder: t('productivity.export.rangePlaceholder')
+  });
+  if (!selection) {
+    return undefined;
+  }
+
+  if (selection.days > 0) {
+    return { from: getRecentDateKeys(selection.days)[0] ?? today, to: today };
+  }
+
+  const validateDate = (value: string): string | undefined =>
+    isDateKey(value) ? undefined : t('productivity.export.invalidDate');
+
+  const from = await vscode.window.showInputBox({
+    title: t('productivity.export.title'),
+    prompt: t('productivity.export.fromPrompt'),
+    value: getRecentDateKeys(7)[0] ?? today,
+    validateInput: validateDate
+  });
+  if (!from) {
+    return undefined;
+  }
+
+  const to = await vscode.window.showInputBox({
+    title: t('productivity.export.title'),
+    prompt: t('productivity.export.toPrompt'),
+    value: today,
+    validateInput: value =>
+      validateDate(value) ?? (value < from ? t('productivity.export.toBeforeFrom') : undefined)
+  });
+  if (!to) {
+    return undefined;
+  }
+
+  return { from, to };
+}
+
+/**
+ * Setting that turns the reaction to each Git operation on or off
+ */
+const GIT_EVENT_SETTINGS: Record<GitEvent, string> = {
+  committed: 'gitCommit',
+  pushed: 'gitPush',
+  pulled: 'gitPull',
+  branchSwitched: 'gitBranchSwitch',
+  merged: 'gitMerge',
+  rebased: 'gitMerge',
+  stashed: 'gitStash'
+};
+
+/**
+ * Register Git event listeners through the Git integration
+ * @param context - VS Code extension context for managing listener lifecycle
+ */
+function registerGitListeners(context: vscode.ExtensionContext): void {
+  gitIntegration = new GitIntegration();
+
+  const gitListener = gitIntegration.onDidGitEvent(event => reactToGitEvent(event));
+
+  // Attribute productivity metrics to the branch of the file being edited
+  const updateBranch = (): void => {
+    kubitoWebviewProvider?.setBranch(gitIntegration?.getCurrentBranch());
+  };
+  const branchListener = gitIntegration.onDidChangeBranch(updateBranch);
+  const activeEditorListener = vscode.window.onDidChangeActiveTextEditor(updateBranch);
+
+  context.subscriptions.push(gitIntegration, gitListener, branchListener, activeEditorListener);
+  void gitIntegration.start();
+
+  registerMergeConflictListeners(context, gitIntegration);
+}
+
+/**
+ * Show Kubito's reaction to a Git operation
+ * @param event - The Git operation
+ */
+function reactToGitEvent(event: IGitEventInfo): void {
+  if (
+    !kubitoWebviewProvider ||
+    !isEventEnabled(GIT_EVENT_SETTINGS[event.type]) ||
+    focusMode?.defer('reaction')
+  ) {
+    return;
+  }
+
+  const ticket =
+    event.type === 'branchSwitched' && event.branch
+      ? parseTicketId(event.branch, getTicketPattern())
+      : undefined;
+
+  kubitoWebviewProvider.triggerMessage({
+    content: ticket
+      ? t('messages.ticketSwitched', { ticket })
+      : t(`messages.${event.type}`, { branch: event.branch ?? '' }),
+    type: 'text'
+  });
+}
+
+/**
+ * Message shown for each change of the number of merge conflicts
+ */
+const CONFLICT_MESSAGES: Record<ConflictChangeKind, string> = {
+  found: 'messages.conflictsFound',
+  progress: 'messages.conflictsProgress',
+  resolved: 'messages.conflictsResolved'
+};
+
+/**
+ * Register merge conflict listeners on documents and unmerged paths
+ * @param context - VS Code extension context for managing listener lifecycle
+ * @param git - Git integration reporting unmerged paths
+ */
+function registerMergeConflictListeners(
+  context: vscode.ExtensionContext,
+  git: GitIntegration
+): void {
+  const conflictTracker = new MergeConflictTracker(git);
+
+  const conflictListener = conflictTracker.onDidChangeConflicts(change =>
+    reactToConflictChange(change)
+  );
+
+  context.subscriptions.push(conflictTracker, conflictListener);
+  conflictTracker.startListening();
+}
+
+/**
+ * Show Kubito's reaction to merge conflicts being found or resolved
+ * @param change - How the number of conflicts changed
+ */
+function reactToConflictChange(change: IConflictChange): void {
+  if (!kubitoWebviewProvider || !isEventEnabled('mergeConflict') || focusMode?.defer('reaction')) {
+    return;
+  }
+
+  kubitoWebviewProvider.triggerMessage({
+    content: t(CONFLICT_MESSAGES[change.kind], { count: change.count }),
+    type: 'text'
   });
+}
+
+/**
+ * Limits reactions to new errors, which come and go while refactoring
+ */
+const brokenReactionLimiter = new RateLimiter(1, 60 * 1000);
+
+/**
+ * Register the diagnostics watcher reacting to errors introduced and fixed
+ * @param context - VS Code extension context for managing listener lifecycle
+ */
+function registerDiagnosticsListeners(context: vscode.ExtensionContext): void {
+  const diagnosticsWatcher = new DiagnosticsWatcher();
+
+  const diagnosticsListener = diagnosticsWatcher.onDidChangeProblems(change =>
+    reactToDiagnosticsChange(change)
+  );
+
+  context.subscriptions.push(diagnosticsWatcher, diagnosticsListener);
+  diagnosticsWatcher.startListening();
+}
 
-  context.subscriptions.push(logsWatcher, refsLogsWatcher);
+/**
+ * Show Kubito's reaction to a file getting errors or the workspace getting rid of them
+ * @param change - How the errors of the workspace changed
+ */
+function reactToDiagnosticsChange(change: IDiagnosticsChange): void {
+  if (!kubitoWebviewProvider || !isEventEnabled('diagnostics') || focusMode?.defer('reaction')) {
+    return;
+  }
+
+  if (change.kind === 'broken' && !brokenReactionLimiter.tryAcquire()) {
+    return;
+  }
+
+  kubitoWebviewProvider.triggerMessage({
+    content: t(getDiagnosticsMessageKey(change)),
+    type: 'text'
+  });
 }
 
 /**
@@ -258,7 +1027,7 @@ function registerGitListeners(context: vscode.ExtensionContext): void {
 function registerEditorEventListeners(context: vscode.ExtensionContext): void {
   // Listen for file save events
   const onSaveListener = vscode.workspace.onDidSaveTextDocument(() => {
-    if (!kubitoWebviewProvider || !isEventEnabled('fileSave')) {
+    if (!kubitoWebviewProvider || !isEventEnabled('fileSave') || focusMode?.defer('reaction')) {
       return;
     }
 
@@ -270,6 +1039,7 @@ function registerEditorEventListeners(context: vscode.ExtensionContext): void {
 
   // Register Git listeners
   registerGitListeners(context);
+  registerDiagnosticsListeners(context);
 
   context.subscriptions.push(onSaveListener);
 }
@@ -285,15 +1055,25 @@ function registerConfigurationListener(context: vscode.ExtensionContext): void {
       // Re-initialize localization with new language
       initializeLocalization();
 
-      // Refresh webview to apply new language (full refresh needed for translations)
+      // Swap translations in place so Kubito keeps walking where he is
       if (kubitoWebviewProvider) {
-        kubitoWebviewProvider.refresh();
+        kubitoWebviewProvider.updateTranslations();
+      }
+      focusMode?.updateTranslations();
+    }
+
+    if (event.affectsConfiguration('kubito.christmasMode')) {
+      // Toggle decorations and sprites in place
+      if (kubitoWebviewProvider) {
+        kubitoWebviewProvider.updateConfig();
+        kubitoWebviewProvider.updateSprites();
       }
     }
 
     if (
       event.affectsConfiguration('kubito.contextualMessages') ||
-      event.affectsConfiguration('kubito.autoShow')
+      event.affectsConfiguration('kubito.autoShow') ||
+      event.affectsConfiguration('kubito.schedule')
     ) {
       // Update webview configuration without full refresh (more efficient)
       if (kubitoWebviewProvider) {
@@ -301,17 +1081,61 @@ function registerConfigurationListener(context: vscode.ExtensionContext): void {
       }
     }
 
-    if (event.affectsConfiguration('kubito.productivity')) {
+    if (
+      event.affectsConfiguration('kubito.productivity') ||
+      event.affectsConfiguration('kubito.schedule')
+    ) {
       // Update productivity manager configuration
       if (kubitoWebviewProvider) {
         kubitoWebviewProvider.updateProductivityConfig();
       }
     }
+
+    if (event.affectsConfiguration('kubito.focusMode')) {
+      focusMode?.updateConfiguration();
+    }
+
+    if (event.affectsConfiguration('kubito.pomodoro')) {
+      // New durations apply from the next phase
+      pomodoroTimer?.updateConfiguration();
+    }
+
+    if (
+      event.affectsConfiguration('kubito.customMessages') ||
+      event.affectsConfiguration('kubito.replaceBuiltInMessages')
+    ) {
+      void kubitoWebviewProvider?.loadCustomMessages();
+    }
   });
 
   context.subscriptions.push(configChangeListener);
 }
 
+/**
+ * Register listeners that reload custom messages from workspace message pack files
+ * @param context - VS Code extension context for managing listener lifecycle
+ */
+function registerCustomMessageListeners(context: vscode.ExtensionContext): void {
+  const reload = (): void => void kubitoWebviewProvider?.loadCustomMessages();
+
+  // Images of message packs in new or newly trusted folders must be loadable first
+  const reloadWorkspace = (): void => {
+    kubitoWebviewProvider?.updateResourceRoots();
+    reload();
+  };
+
+  const watcher = vscode.workspace.createFileSystemWatcher(`**/${CUSTOM_MESSAGES_FILE}`);
+  watcher.onDidCreate(reload);
+  watcher.onDidChange(reload);
+  watcher.onDidDelete(reload);
+
+  context.subscriptions.push(
+    watcher,
+    vscode.workspace.onDidChangeWorkspaceFolders(reloadWorkspace),
+    vscode.workspace.onDidGrantWorkspaceTrust(reloadWorkspace)
+  );
+}
+
 /**
  * Auto-show Kubito if the user setting is enabled
  * Uses a small delay to ensure VS Code is fully initialized
@@ -333,6 +1157,19 @@ async function autoShowKubito(): Promise<void> {
   }, 500);
 }
 
+/**
+ * Actions offered on reminders, in display order
+ */
+const REMINDER_ACTION_IDS: readonly ReminderAction[] = ['done', 'snooze', 'skipToday'];
+
+/**
+ * Get the translated button label of a reminder action
+ * @param action - The reminder action
+ */
+function getReminderActionLabel(action: ReminderAction): string {
+  return t(`reminders.${action}`, { minutes: REMINDER_SNOOZE_MINUTES });
+}
+
 /**
  * Webview provider implementation for Kubito companion
  * Manages the lifecycle and content of the Kubito webview panel
@@ -340,8 +1177,22 @@ async function autoShowKubito(): Promise<void> {
 class KubitoWebviewProvider implements IKubitoWebviewProvider {
   private _view: vscode.WebviewView | undefined;
   private _productivityManager: ProductivityManager | undefined;
+  private readonly _metricsHistory: MetricsHistory;
+  private _branch: IRepositoryBranch | undefined; // Checked-out branch, kept across reloads
+  private _isResting = false;
+  private _isFocusMode = false;
+  private _customMessages: ICustomMessagePack = { messages: [], replaceBuiltIn: false };
+  private readonly _channel = new WebviewChannel(() => this.getWebviewState());
+  private readonly _interactionEmitter = new vscode.EventEmitter<WebviewInteraction>();
 
-  constructor(private readonly _context: vscode.ExtensionContext) {}
+  /**
+   * Fired when the user clicks, drags or throws Kubito, and when speech bubbles are shown or closed
+   */
+  public readonly onDidInteract = this._interactionEmitter.event;
+
+  constructor(private readonly _context: vscode.ExtensionContext) {
+    this._metricsHistory = new MetricsHistory(_context.globalState);
+  }
 
   /**
    * Resolve the webview view when it becomes visible
@@ -350,20 +1201,35 @@ class KubitoWebviewProvider implements IKubitoWebviewProvider {
    */
   resolveWebviewView(webviewView: vscode.WebviewView): void {
     this._view = webviewView;
+    this._channel.attach(webviewView.webview);
 
     // Configure webview security and resource access
-    webviewView.webview.options = {
-      enableScripts: true, // Allow JavaScript execution for animations
-      localResourceRoots: [vscode.Uri.joinPath(this._context.extensionUri, 'media')]
-    };
+    webviewView.webview.options = this.getWebviewOptions();
 
     // Set the HTML content for the webview
     webviewView.webview.html = this.getWebviewContent(webviewView.webview);
 
-    // Initialize productivity manager
-    this._productivityManager = new ProductivityManager(this._context, message =>
-      this.handleProductivityMessage(message)
+    // Load custom messages from settings and workspace files
+    void this.loadCustomMessages();
+
+    // Receive the handshake, interactions and actions chosen in speech bubbles
+    webviewView.webview.onDidReceiveMessage(message => this.handleWebviewMessage(message));
+
+    // The webview is not kept alive while hidden: its script reloads and sends a new handshake
+    webviewView.onDidChangeVisibility(() => {
+      if (!webviewView.visible) {
+        this._channel.reset();
+      }
+    });
+
+    // Initialize productivity manager, replacing the one of a previous view
+    void this._productivityManager?.dispose();
+    this._productivityManager = new ProductivityManager(
+      this._context,
+      message => this.handleProductivityMessage(message),
+      this._metricsHistory
     );
+    this._productivityManager.setBranch(this._branch);
 
     // Check if Christmas mode should show welcome notification
     void this.checkChristmasWelcome();
@@ -371,8 +1237,9 @@ class KubitoWebviewProvider implements IKubitoWebviewProvider {
     // Clean up when webview is disposed
     webviewView.onDidDispose(() => {
       this._view = undefined;
+      this._channel.detach();
       if (this._productivityManager) {
-        this._productivityManager.dispose();
+        void this._productivityManager.dispose();
         this._productivityManager = undefined;
       }
     });
@@ -388,7 +1255,7 @@ class KubitoWebviewProvider implements IKubitoWebviewProvider {
     const resourceUris = this.getResourceUris(webview);
 
     return `<!DOCTYPE html>
-<html lang="en">
+<html lang="${getCurrentLanguage()}" dir="${getLanguageDirection()}">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -413,8 +1280,23 @@ class KubitoWebviewProvider implements IKubitoWebviewProvider {
         // Store translations to be used by the main script
         window.kubitoTranslations = ${JSON.stringify(getCurrentTranslations().messages)};
 
+        // Language and text direction of the speech bubbles
+        window.kubitoLocale = ${JSON.stringify({
+          language: getCurrentLanguage(),
+          direction: getLanguageDirection()
+        })};
+
         // Store configuration settings
         window.kubitoConfig = ${JSON.stringify(this.getKubitoConfig())};
+
+        // Custom messages from settings and workspace files ('<' escaped so text cannot end the script)
+        window.kubitoCustomMessages = ${JSON.stringify(this.getWebviewCustomMessages(webview)).replace(/</g, '\\u003c')};
+
+        // Whether Kubito starts resting (Pomodoro break in progress)
+        window.kubitoResting = ${JSON.stringify(this._isResting)};
+
+        // Whether focus mode silences random messages
+        window.kubitoFocusMode = ${JSON.stringify(this._isFocusMode)};
     </script>
     <script src="${resourceUris.js}"></script>
 </body>
@@ -432,60 +1314,172 @@ class KubitoWebviewProvider implements IKubitoWebviewProvider {
       contextualMessages: config.get<boolean>('contextualMessages', true),
       language: config.get<string>('language', 'auto'),
       autoShow: config.get<boolean>('autoShow', true),
-      christmasMode: config.get<string>('christmasMode', 'auto')
+      christmasMode: config.get<string>('christmasMode', 'auto'),
+      schedule: getSchedule()
+    };
+  }
+
+  /**
+   * Get the webview security and resource access options
+   * Trusted workspace folders are included for images of custom messages
+   */
+  private getWebviewOptions(): vscode.WebviewOptions {
+    return {
+      enableScripts: true, // Allow JavaScript execution for animations
+      localResourceRoots: [
+        vscode.Uri.joinPath(this._context.extensionUri, 'media'),
+        ...(vscode.workspace.isTrusted
+          ? (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri)
+          : [])
+      ]
     };
   }
 
   /**
-   * Refresh the webview content with updated translations and configuration
-   * This is called when language or configuration settings change
+   * Let the webview load images from the current trusted workspace folders
+   * Called when workspace folders change or the workspace is trusted
    */
-  public refresh(): void {
+  public updateResourceRoots(): void {
     if (this._view) {
-      this._view.webview.html = this.getWebviewContent(this._view.webview);
+      this._view.webview.options = this.getWebviewOptions();
     }
   }
 
   /**
-   * Send a message to the webview to update configuration without full refresh
-   * This is more efficient for configuration-only changes
+   * Load custom messages and send them to the webview
    */
-  public updateConfig(): void {
+  public async loadCustomMessages(): Promise<void> {
+    this._customMessages = await loadCustomMessages();
+
     if (this._view) {
-      const config = this.getKubitoConfig();
-      void this._view.webview.postMessage({
-        command: 'updateConfig',
-        config: config
+      this.postMessage({
+        command: 'setCustomMessages',
+        customMessages: this.getWebviewCustomMessages(this._view.webview)
       });
     }
   }
 
+  /**
+   * Prepare custom messages for the webview, with image paths turned into webview URIs
+   * @param webview - The webview the messages are sent to
+   */
+  private getWebviewCustomMessages(webview: vscode.Webview): IWebviewCustomMessagePack {
+    return {
+      replaceBuiltIn: this._customMessages.replaceBuiltIn,
+      messages: this._customMessages.messages.map(message => ({
+        type: message.type,
+        content: message.imageUri
+          ? webview.asWebviewUri(message.imageUri).toString()
+          : message.content,
+        alt: message.alt ?? message.content,
+        weight: message.weight,
+        contexts: message.contexts,
+        languages: message.languages
+      }))
+    };
+  }
+
+  /**
+   * Send the translations of the current language to the webview
+   * The message pool is rebuilt from them on the next message
+   */
+  public updateTranslations(): void {
+    this._productivityManager?.updateTranslations();
+    this.postMessage(this.getTranslationsMessage());
+  }
+
+  /**
+   * Command carrying the translations and locale of the current language
+   */
+  private getTranslationsMessage(): HostToWebviewMessage {
+    return {
+      command: 'updateTranslations',
+      translations: { ...getCurrentTranslations().messages },
+      locale: { language: getCurrentLanguage(), direction: getLanguageDirection() }
+    };
+  }
+
+  /**
+   * Send Kubito's animation sprites to the webview (Christmas variants when active)
+   */
+  public updateSprites(): void {
+    if (this._view) {
+      this.postMessage(this.getSpritesMessage(this._view.webview));
+    }
+  }
+
+  /**
+   * Command carrying Kubito's current animation sprites
+   * @param webview - The webview the sprites are sent to
+   */
+  private getSpritesMessage(webview: vscode.Webview): HostToWebviewMessage {
+    const resourceUris = this.getResourceUris(webview);
+
+    return {
+      command: 'updateSprites',
+      sprites: {
+        walking: resourceUris.walkingGif?.toString(),
+        jumping: resourceUris.jumpingGif?.toString(),
+        idle: resourceUris.idleGif?.toString(),
+        waving: resourceUris.wavingGif?.toString(),
+        footing: resourceUris.footingGif?.toString()
+      }
+    };
+  }
+
+  /**
+   * Send a message to the webview to update configuration without full refresh
+   * This is more efficient for configuration-only changes
+   */
+  public updateConfig(): void {
+    this.postMessage({
+      command: 'updateConfig',
+      config: this.getKubitoConfig()
+    });
+  }
+
   /**
    * Send a message to be displayed by Kubito
    * @param message - Message object to display
    */
   public triggerMessage(message: IMessage): void {
-    if (this._view) {
-      void this._view.webview.postMessage({
-        command: 'showMessage',
-        message: message
-      });
-    }
+    this.postMessage({
+      command: 'showMessage',
+      message: message
+    });
   }
 
   /**
    * Handle productivity-related messages (reminders and metrics)
    * @param message - Productivity message from ProductivityManager
    */
-  private handleProductivityMessage(message: { type: string; content: string }): void {
+  private handleProductivityMessage(message: IProductivityMessage): void {
+    // Hold back reminders and metrics updates while focus mode is on
+    if (
+      message.type !== 'acknowledgement' &&
+      focusMode?.defer(message.type === 'metrics' ? 'metrics' : 'reminder')
+    ) {
+      return;
+    }
+
     let kubitoMessage: IMessage;
 
     switch (message.type) {
       case 'reminder':
         kubitoMessage = {
           type: 'text',
-          content: message.content
+          content: message.content,
+          ...(message.reminder
+            ? {
+                id: message.reminder,
+                actions: REMINDER_ACTION_IDS.map(id => ({ id, label: getReminderActionLabel(id) }))
+              }
+            : {})
         };
+
+        if (message.reminder) {
+          void this.showReminderNotification(message.reminder, message.content);
+        }
         break;
       case 'metrics':
         kubitoMessage = {
@@ -503,6 +1497,146 @@ class KubitoWebviewProvider implements IKubitoWebviewProvider {
     this.triggerMessage(kubitoMessage);
   }
 
+  /**
+   * Show a reminder as a notification with the same actions as the speech bubble
+   * Used when the Kubito view is hidden or when the user asked for notifications
+   * @param reminderKey - Key of the reminder
+   * @param content - Reminder text
+   */
+  private async showReminderNotification(reminderKey: string, content: string): Promise<void> {
+    const config = vscode.workspace.getConfiguration('kubito.productivity');
+    if (this.isVisible() && !config.get<boolean>('reminderNotifications', false)) {
+      return;
+    }
+
+    const labels = REMINDER_ACTION_IDS.map(getReminderActionLabel);
+    const selection = await vscode.window.showInformationMessage(content, ...labels);
+    const action = REMINDER_ACTION_IDS.find(id => getReminderActionLabel(id) === selection);
+
+    if (action) {
+      await this._productivityManager?.handleReminderAction(reminderKey, action);
+    }
+  }
+
+  /**
+   * Handle messages sent by the webview
+   * @param message - Message posted by the webview script
+   */
+  private handleWebviewMessage(message: unknown): void {
+    if (!isWebviewToHostMessage(message)) {
+      return;
+    }
+
+    switch (message.command) {
+      case 'ready':
+        this._channel.handleReady(message.version);
+        break;
+
+      case 'messageAction':
+        if (REMINDER_ACTION_IDS.includes(message.action as ReminderAction)) {
+          void this._productivityManager?.handleReminderAction(
+            message.id,
+            message.action as ReminderAction
+          );
+        }
+        break;
+
+      default:
+        this._interactionEmitter.fire(message);
+    }
+  }
+
+  /**
+   * Send a command to the webview once its script is ready
+   * @param message - Command to send
+   */
+  private postMessage(message: HostToWebviewMessage): void {
+    this._channel.post(message);
+  }
+
+  /**
+   * Commands restoring the whole webview state, sent on every handshake
+   * The HTML is only built on the first resolve, so everything that changed since
+   * (language, sprites, settings, custom messages, Pomodoro break, focus mode) is sent again
+   */
+  private getWebviewState(): HostToWebviewMessage[] {
+    if (!this._view) {
+      return [];
+    }
+
+    return [
+      this.getTranslationsMessage(),
+      this.getSpritesMessage(this._view.webview),
+      { command: 'updateConfig', config: this.getKubitoConfig() },
+      {
+        command: 'setCustomMessages',
+        customMessages: this.getWebviewCustomMessages(this._view.webview)
+      },
+      { command: 'setResting', resting: this._isResting },
+      { command: 'setFocusMode', active: this._isFocusMode }
+    ];
+  }
+
+  /**
+   * Announce a new Pomodoro phase and let Kubito rest during breaks
+   * @param phase - The phase that started
+   * @param minutes - Length of the phase
+   */
+  public startPomodoroPhase(phase: PomodoroPhase, minutes: number): void {
+    this.setResting(phase !== 'work');
+    this.triggerMessage({
+      type: 'text',
+      content: t(`productivity.pomodoro.${phase}`, { minutes })
+    });
+  }
+
+  /**
+   * Tell the webview whether Kubito should rest (stay idle) or move around
+   * @param resting - Whether Kubito should rest
+   */
+  public setResting(resting: boolean): void {
+    this._isResting = resting;
+    this.postMessage({
+      command: 'setResting',
+      resting
+    });
+  }
+
+  /**
+   * Tell the webview whether focus mode silences random messages
+   * @param active - Whether focus mode is active
+   */
+  public setFocusMode(active: boolean): void {
+    this._isFocusMode = active;
+    this.postMessage({
+      command: 'setFocusMode',
+      active
+    });
+  }
+
+  /**
+   * Whether the Kubito view is currently visible
+   */
+  public isVisible(): boolean {
+    return this._view?.visible ?? false;
+  }
+
+  /**
+   * Count a completed Pomodoro in the productivity metrics
+   * Written straight to the history when no session is being tracked
+   */
+  public async recordPomodoro(): Promise<void> {
+    if (this._productivityManager) {
+      this._productivityManager.recordPomodoro();
+      return;
+    }
+
+    await this._metricsHistory.record(getDateKey(new Date()), getCurrentWorkspace(), {
+      ...createEmptyDelta(),
+      pomodorosCompleted: 1
+    });
+  }
+
   /**
    * Get productivity insights from the manager
    */
@@ -510,6 +1644,61 @@ class KubitoWebviewProvider implements IKubitoWebviewProvider {
     return this._productivityManager?.getProductivityInsights();
   }
 
+  /**
+   * Get aggregated metrics from the daily history for a period
+   * Includes data from the running session that has not been persisted yet
+   * @param period - The period to summarize
+   */
+  public async getMetricsSummary(period: MetricsPeriod): Promise<IMetricsSummary> {
+    if (this._productivityManager) {
+      return this._productivityManager.getHistorySummary(period);
+    }
+    return this._metricsHistory.summarize(period);
+  }
+
+  /**
+   * Get aggregated metrics of each branch for a period, most active first
+   * @param period - The period to summarize
+   */
+  public async getBranchSummaries(period: MetricsPeriod): Promise<IBranchSummary[]> {
+    await this._productivityManager?.flushMetrics();
+    return this._metricsHistory.summarizeBranches(period);
+  }
+
+  /**
+   * Attribute productivity metrics to a Git branch from now on
+   * @param branch - Checked-out branch, undefined when unknown or detached
+   */
+  public setBranch(branch: IRepositoryBranch | undefined): void {
+    this._branch = branch;
+    this._productivityManager?.setBranch(branch);
+  }
+
+  /**
+   * Get the persistent metrics history store
+   */
+  public getMetricsHistory(): MetricsHistory {
+    return this._metricsHistory;
+  }
+
+  /**
+   * Persist metrics collected by the running session, if any
+   */
+  public async flushMetrics(): Promise<void> {
+    await this._productivityManager?.flushMetrics();
+  }
+
+  /**
+   * Collect the session and history data shown by the productivity dashboard
+   */
+  public async getDashboardData(): Promise<IDashboardData> {
+    const session = this._productivityManager?.getSessionSnapshot();
+    const days = getRecentDateKeys(DASHBOARD_DAYS);
+    const history = this._metricsHistory.getRange(days[0] ?? '', days[days.length - 1] ?? '');
+
+    return { session, history, days };
+  }
+
   /**
    * Update productivity manager configuration when settings change
    */
@@ -552,17 +1741,19 @@ class KubitoWebviewProvider implements IKubitoWebviewProvider {
     // Delay to let user see and appreciate the decorations first
     setTimeout(async () => {
       // Show welcome notification with action buttons
+      const disableLabel = t('notifications.disable');
+      const settingsLabel = t('notifications.settings');
       const selection = await vscode.window.showInformationMessage(
-        '🎄 Kubito is in Christmas mode! Enjoying the festive decorations?',
-        'Keep it',
-        'Disable',
-        'Settings'
+        t('notifications.christmasWelcome'),
+        t('notifications.keepIt'),
+        disableLabel,
+        settingsLabel
       );
 
       // Handle user selection
-      if (selection === 'Disable') {
+      if (selection === disableLabel) {
         await vscode.commands.executeCommand('kubito.disableChristmasMode');
-      } else if (selection === 'Settings') {
+      } else if (selection === settingsLabel) {
         await vscode.commands.executeCommand(
           'workbench.action.openSettings',
           'kubito.christmasMode'
@@ -574,6 +1765,17 @@ class KubitoWebviewProvider implements IKubitoWebviewProvider {
     }, 8000); // 8 seconds delay to let user see the decorations, messages, and fully understand what Christmas mode is
   }
 
+  /**
+   * Release the productivity manager and persist pending metrics
+   * @returns Resolves once the pending metrics are written
+   */
+  public async dispose(): Promise<void> {
+    const manager = this._productivityManager;
+    this._productivityManager = undefined;
+    this._interactionEmitter.dispose();
+    await manager?.dispose();
+  }
+
   /**
    * Get all media resource URIs converted for webview usage
    * Converts local file URIs to webview-compatible URIs for security
@@ -629,9 +1831,12 @@ class KubitoWebviewProvider implements IKubitoWebviewProvider {
  * Called when the extension is being deactivated
  * Performs cleanup of resources and references
  */
-export function deactivate(): void {
+export async function deactivate(): Promise<void> {
   // Clean up global references to prevent memory leaks
   if (kubitoWebviewProvider) {
+    const provider = kubitoWebviewProvider;
     kubitoWebviewProvider = undefined;
+    // VS Code waits for the returned promise, so the last metrics flush is not lost
+    await provider.dispose();
   }
 }
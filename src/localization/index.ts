@@ -4,6 +4,7 @@
  */
 
 import * as vscode from 'vscode';
+import { formatMessage, TranslationValue } from './messageFormat';
 
 // Import translation files
 import enTranslations from './en.json';
@@ -20,6 +21,10 @@ import nlTranslations from './nl.json';
 import plTranslations from './pl.json';
 import trTranslations from './tr.json';
 import arTranslations from './ar.json';
+import ptBrTranslations from './pt-br.json';
+import zhTwTranslations from './zh-tw.json';
+import es419Translations from './es-419.json';
+import enGbTranslations from './en-gb.json';
 
 /**
  * Supported languages interface with all available messages
@@ -27,6 +32,17 @@ import arTranslations from './ar.json';
 export interface ITranslations {
   messages: {
     sleeping: string;
+    committed: string;
+    pushed: string;
+    pulled: string;
+    branchSwitched: string;
+    ticketSwitched: string;
+    merged: string;
+    rebased: string;
+    stashed: string;
+    conflictsFound: string;
+    conflictsProgress: string;
+    conflictsResolved: string;
     letsCode: string;
     coffee: string;
     vivaKubit: string;
@@ -88,6 +104,9 @@ export interface ITranslations {
     earlyBird: string;
     nightOwl: string;
     weekend: string;
+    motivated: string;
+    meetingTime: string;
+    sideProject: string;
     vacation: string;
     deadline: string;
     crunchTime: string;
@@ -114,6 +133,124 @@ export interface ITranslations {
     codingElf: string;
     sleighride: string;
   };
+  productivity: {
+    metrics: {
+      title: string;
+      sessionDuration: string;
+      linesPerHour: string;
+      filesModified: string;
+      productivityScore: string;
+      mostActiveLanguage: string;
+      activeTime: string;
+      linesChanged: string;
+      daysActive: string;
+      pomodorosCompleted: string;
+      unknownLanguage: string;
+      noMetrics: string;
+      timePerBranch: string;
+      noBranchActivity: string;
+    };
+    periods: {
+      today: string;
+      yesterday: string;
+      last7Days: string;
+      last30Days: string;
+      last90Days: string;
+    };
+    dashboard: {
+      panelTitle: string;
+      title: string;
+      session: string;
+      linesWritten: string;
+      linesDeleted: string;
+      filesTouched: string;
+      score: string;
+      pomodoros: string;
+      sessionTimeline: string;
+      written: string;
+      deleted: string;
+      timelineEmpty: string;
+      openKubito: string;
+      linesChart: string;
+      scoreTrend: string;
+      languages: string;
+      filesThisSession: string;
+      moreFiles: string;
+      noActivity: string;
+    };
+    export: {
+      title: string;
+      rangePlaceholder: string;
+      customRange: string;
+      fromPrompt: string;
+      toPrompt: string;
+      invalidDate: string;
+      toBeforeFrom: string;
+      allWorkspaces: string;
+      workspacePlaceholder: string;
+      formatPlaceholder: string;
+      csvDescription: string;
+      jsonDescription: string;
+      noRecords: string;
+      exported: string;
+      open: string;
+      failed: string;
+    };
+    suggestions: {
+      moreBreaks: string;
+      timeBoxing: string;
+      smallerFiles: string;
+    };
+    duration: {
+      hoursMinutes: string;
+      minutes: string;
+    };
+    pomodoro: {
+      work: string;
+      shortBreak: string;
+      longBreak: string;
+      tooltip: string;
+      tooltipPaused: string;
+    };
+  };
+  reminders: {
+    break: string;
+    water: string;
+    posture: string;
+    eyes: string;
+    done: string;
+    snooze: string;
+    skipToday: string;
+    streak: string;
+  };
+  focusMode: {
+    minutes: string;
+    hours: string;
+    untilTurnedOff: string;
+    durationPrompt: string;
+    over: string;
+    overWithSummary: string;
+    reactions: string;
+    reminders: string;
+    metrics: string;
+    listSeparator: string;
+    statusBarOn: string;
+    tooltipOff: string;
+    tooltipOn: string;
+    tooltipOnUntil: string;
+  };
+  say: {
+    title: string;
+    prompt: string;
+    placeholder: string;
+    invalidArguments: string;
+  };
+  links: {
+    unsupported: string;
+    confirmSay: string;
+    show: string;
+    ignore: string;
+  };
   commands: {
     show: string;
     hide: string;
@@ -126,9 +263,33 @@ export interface ITranslations {
     showError: string;
     hideInfo: string;
     hideConfirm: string;
+    christmasEnabled: string;
+    christmasDisabled: string;
+    christmasWelcome: string;
+    keepIt: string;
+    disable: string;
+    reenable: string;
+    settings: string;
+    ok: string;
+    translationsComplete: string;
+    translationsHaveProblems: string;
   };
 }
 
+/**
+ * Translations that override only some keys of another language
+ */
+export type PartialTranslations = {
+  [Section in keyof ITranslations]?: DeepPartial<ITranslations[Section]>;
+};
+
+/**
+ * Nested object with every property optional
+ */
+type DeepPartial<T> = {
+  [Key in keyof T]?: T[Key] extends string ? string : DeepPartial<T[Key]>;
+};
+
 /**
  * Available translations map
  */
@@ -149,21 +310,122 @@ const TRANSLATIONS: Record<string, ITranslations> = {
   ar: arTranslations
 } as const;
 
+/**
+ * Regional variants, overriding only the keys that differ from their base language
+ */
+const REGIONAL_TRANSLATIONS: Record<string, PartialTranslations> = {
+  'pt-br': ptBrTranslations,
+  'zh-tw': zhTwTranslations,
+  'es-419': es419Translations,
+  'en-gb': enGbTranslations
+} as const;
+
+/**
+ * Language each regional variant falls back to for keys it does not override
+ */
+const REGIONAL_FALLBACKS: Record<string, string> = {
+  'pt-br': 'pt',
+  'zh-tw': 'zh-cn',
+  'es-419': 'es',
+  'en-gb': 'en'
+};
+
 /**
  * Supported language codes
  */
-export type SupportedLanguage = keyof typeof TRANSLATIONS;
+export type SupportedLanguage = keyof typeof TRANSLATIONS | keyof typeof REGIONAL_TRANSLATIONS;
+
+/**
+ * Text direction of a language
+ */
+export type TextDirection = 'ltr' | 'rtl';
 
 /**
  * Default fallback language
  */
 const DEFAULT_LANGUAGE: SupportedLanguage = 'en';
 
+/**
+ * Languages written from right to left
+ */
+const RTL_LANGUAGES: readonly SupportedLanguage[] = ['ar'];
+
 /**
  * Current active language
  */
 let currentLanguage: SupportedLanguage = DEFAULT_LANGUAGE;
 
+/**
+ * Translations with their fallback chain resolved, per language
+ */
+const resolvedTranslations = new Map<SupportedLanguage, ITranslations>();
+
+/**
+ * Checks whether a language code has translations, as a base language or regional variant
+ * @param language - The language code to check
+ */
+function isSupportedLanguage(language: string): boolean {
+  return language in TRANSLATIONS || language in REGIONAL_TRANSLATIONS;
+}
+
+/**
+ * Gets the languages a translation is looked up in, most specific first
+ * @param language - The language code
+ * @returns The fallback chain, e.g. ['pt-br', 'pt', 'en']
+ */
+export function getFallbackChain(language: SupportedLanguage): SupportedLanguage[] {
+  const chain: SupportedLanguage[] = [language];
+  const base = REGIONAL_FALLBACKS[language];
+
+  if (base) {
+    chain.push(base);
+  }
+  if (!chain.includes(DEFAULT_LANGUAGE)) {
+    chain.push(DEFAULT_LANGUAGE);
+  }
+
+  return chain;
+}
+
+/**
+ * Merge translation overrides into a copy of the base translations, key by key
+ */
+function mergeTranslations(base: unknown, overrides: unknown): unknown {
+  if (!overrides || typeof overrides !== 'object' || !base || typeof base !== 'object') {
+    return overrides ?? base;
+  }
+
+  const merged: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+  Object.entries(overrides as Record<string, unknown>).forEach(([key, value]) => {
+    merged[key] = mergeTranslations(merged[key], value);
+  });
+
+  return merged;
+}
+
+/**
+ * Resolves the translations of a language through its fallback chain
+ * Each key comes from the most specific language that translates it
+ * @param language - The language code
+ */
+function resolveTranslations(language: SupportedLanguage): ITranslations {
+  const cached = resolvedTranslations.get(language);
+  if (cached) {
+    return cached;
+  }
+
+  const resolved = getFallbackChain(language)
+    .reverse()
+    .reduce<unknown>(
+      (merged, code) =>
+        mergeTranslations(merged, TRANSLATIONS[code] ?? REGIONAL_TRANSLATIONS[code]),
+      {}
+    ) as ITranslations;
+
+  resolvedTranslations.set(language, resolved);
+  return resolved;
+}
+
 /**
  * Detects the VS Code language and returns the best matching supported language
  * @returns The detected language code or default fallback
@@ -180,8 +442,8 @@ export function detectVSCodeLanguage(): SupportedLanguage {
     // Normalize the language code
     const normalizedLanguage = vscodeLanguage.toLowerCase();
 
-    // Check for exact match first (e.g., 'zh-cn')
-    if (normalizedLanguage in TRANSLATIONS) {
+    // Check for exact match first (e.g., 'zh-cn', 'pt-br')
+    if (isSupportedLanguage(normalizedLanguage)) {
       return normalizedLanguage as SupportedLanguage;
     }
 
@@ -191,6 +453,18 @@ export function detectVSCodeLanguage(): SupportedLanguage {
       'zh-cn': 'zh-cn',
       'zh-sg': 'zh-cn',
       zh: 'zh-cn',
+      'zh-hant': 'zh-tw',
+      'zh-hk': 'zh-tw',
+      'zh-mo': 'zh-tw',
+      'es-mx': 'es-419',
+      'es-ar': 'es-419',
+      'es-co': 'es-419',
+      'es-cl': 'es-419',
+      'es-pe': 'es-419',
+      'es-us': 'es-419',
+      'en-ie': 'en-gb',
+      'en-au': 'en-gb',
+      'en-nz': 'en-gb',
       ja: 'ja',
       ko: 'ko',
       ar: 'ar',
@@ -227,7 +501,7 @@ export function getUserPreferredLanguage(): SupportedLanguage {
     const userLanguage = config.get<string>('language');
 
     // If user has set a specific language preference
-    if (userLanguage && userLanguage in TRANSLATIONS) {
+    if (userLanguage && isSupportedLanguage(userLanguage)) {
       return userLanguage as SupportedLanguage;
     }
 
@@ -254,7 +528,7 @@ export function initializeLocalization(): void {
 export function setLanguage(language: SupportedLanguage | 'auto'): ITranslations {
   if (language === 'auto') {
     currentLanguage = detectVSCodeLanguage();
-  } else if (language in TRANSLATIONS) {
+  } else if (isSupportedLanguage(language)) {
     currentLanguage = language;
   } else {
     currentLanguage = DEFAULT_LANGUAGE;
@@ -268,11 +542,10 @@ export function setLanguage(language: SupportedLanguage | 'auto'): ITranslations
  * @returns The current translations object
  */
 export function getCurrentTranslations(): ITranslations {
-  const translations = TRANSLATIONS[currentLanguage] || TRANSLATIONS[DEFAULT_LANGUAGE];
-  if (!translations) {
+  if (!isSupportedLanguage(currentLanguage)) {
     throw new Error(`No translations found for language: ${currentLanguage}`);
   }
-  return translations;
+  return resolveTranslations(currentLanguage);
 }
 
 /**
@@ -283,24 +556,57 @@ export function getCurrentLanguage(): SupportedLanguage {
   return currentLanguage;
 }
 
+/**
+ * Gets the translation files of every supported language, without fallbacks applied
+ * Regional variants only contain the keys they override
+ * @returns Map of language codes to translations
+ */
+export function getAllTranslations(): Readonly<
+  Record<SupportedLanguage, ITranslations | PartialTranslations>
+> {
+  return { ...TRANSLATIONS, ...REGIONAL_TRANSLATIONS };
+}
+
+/**
+ * Gets the regional variants, which only override some keys of their base language
+ * @returns Array of regional language codes
+ */
+export function getRegionalLanguages(): SupportedLanguage[] {
+  return Object.keys(REGIONAL_TRANSLATIONS);
+}
+
+/**
+ * Gets the text direction of a language
+ * @param language - The language code, defaults to the current language
+ * @returns 'rtl' for right-to-left languages, 'ltr' otherwise
+ */
+export function getLanguageDirection(language: SupportedLanguage = currentLanguage): TextDirection {
+  return getFallbackChain(language).some(code => RTL_LANGUAGES.includes(code)) ? 'rtl' : 'ltr';
+}
+
 /**
  * Gets all available languages
  * @returns Array of supported language codes
  */
 export function getAvailableLanguages(): SupportedLanguage[] {
-  return Object.keys(TRANSLATIONS) as SupportedLanguage[];
+  return [...Object.keys(TRANSLATIONS), ...Object.keys(REGIONAL_TRANSLATIONS)];
 }
 
 /**
  * Formats a translation string with placeholders
+ * Supports ICU-style plural, number and date arguments, e.g.
+ * `{count, plural, one {# file} other {# files}}`
  * @param template - The translation string with {placeholder} markers
  * @param values - Object with values to replace placeholders
+ * @param language - Language whose plural rules and number formats are used
  * @returns The formatted string
  */
-export function formatTranslation(template: string, values: Record<string, string> = {}): string {
-  return template.replace(/\{(\w+)\}/g, (match, key) => {
-    return values[key] || match;
-  });
+export function formatTranslation(
+  template: string,
+  values: Record<string, TranslationValue> = {},
+  language: SupportedLanguage = currentLanguage
+): string {
+  return formatMessage(template, values, language);
 }
 
 /**
@@ -309,7 +615,7 @@ export function formatTranslation(template: string, values: Record<string, strin
  * @param values - Optional values for placeholder replacement
  * @returns The translated and formatted message
  */
-export function t(key: string, values?: Record<string, string>): string {
+export function t(key: string, values?: Record<string, TranslationValue>): string {
   const translations = getCurrentTranslations();
 
   // Navigate through nested object using dot notation (e.g., 'messages.sleeping')
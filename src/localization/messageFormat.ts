@@ -0,0 +1,277 @@
+/**
+ * ICU-style message formatting for Kubito translations
+ *
+ * Supports the subset of ICU MessageFormat the translations need:
+ * - `{name}` simple arguments (numbers and dates are formatted for the locale)
+ * - `{name, number}` with an optional `integer` or `percent` style
+ * - `{name, date}` and `{name, time}` with an optional `short`, `medium`, `long` or `full` style
+ * - `{name, plural, ...}` and `{name, selectordinal, ...}` using `Intl.PluralRules`,
+ *   with `=n` exact matches and `#` for the formatted number
+ * - `{name, select, ...}` to pick a branch by a string value
+ *
+ * Apostrophes are always literal, so texts like "Let's code" need no escaping, and
+ * braces that do not hold an argument name (e.g. `{ coffee++; }`) are kept as text.
+ */
+
+/**
+ * Value that can be placed in a translation
+ */
+export type TranslationValue = string | number | Date;
+
+/**
+ * Valid argument names
+ */
+const ARGUMENT_NAME = /^\w+$/;
+
+/**
+ * Date and time styles accepted by the `date` and `time` argument types
+ */
+const DATE_STYLES = ['short', 'medium', 'long', 'full'] as const;
+
+type DateStyle = (typeof DATE_STYLES)[number];
+
+/**
+ * Find the brace closing the one at `start`, or -1 when unbalanced
+ */
+function findClosingBrace(template: string, start: number): number {
+  let depth = 0;
+
+  for (let i = start; i < template.length; i++) {
+    if (template[i] === '{') {
+      depth++;
+    } else if (template[i] === '}') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Split an ICU argument body (without braces) into name, type and style
+ * The style is everything after the second comma, including nested branches
+ */
+function parseArgument(body: string): { name: string; type: string; style: string } {
+  const firstComma = body.indexOf(',');
+  if (firstComma === -1) {
+    return { name: body.trim(), type: '', style: '' };
+  }
+
+  const rest = body.slice(firstComma + 1);
+  const secondComma = rest.indexOf(',');
+
+  return {
+    name: body.slice(0, firstComma).trim(),
+    type: (secondComma === -1 ? rest : rest.slice(0, secondComma)).trim(),
+    style: secondComma === -1 ? '' : rest.slice(secondComma + 1).trim()
+  };
+}
+
+/**
+ * Parse the branches of a plural, selectordinal or select argument
+ * @returns Map of selectors (e.g. 'one', '=0', 'other') to branch templates
+ */
+function parseBranches(style: string): Map<string, string> {
+  const branches = new Map<string, string>();
+  let i = 0;
+
+  while (i < style.length) {
+    const open = style.indexOf('{', i);
+    if (open === -1) {
+      break;
+    }
+
+    const close = findClosingBrace(style, open);
+    if (close === -1) {
+      break;
+    }
+
+    // Skip the plural offset, which Kubito's translations do not use
+    const selector = style
+      .slice(i, open)
+      .trim()
+      .replace(/^offset:\d+\s*/, '');
+    branches.set(selector, style.slice(open + 1, close));
+    i = close + 1;
+  }
+
+  return branches;
+}
+
+/**
+ * Format a number for the locale
+ */
+function formatNumber(value: number, locale: string, style?: string): string {
+  const options: Intl.NumberFormatOptions =
+    style === 'percent'
+      ? { style: 'percent' }
+      : style === 'integer'
+        ? { maximumFractionDigits: 0 }
+        : {};
+
+  return new Intl.NumberFormat(locale, options).format(value);
+}
+
+/**
+ * Format a date or time for the locale
+ */
+function formatDate(value: Date, locale: string, type: 'date' | 'time', style: string): string {
+  const dateStyle: DateStyle = DATE_STYLES.includes(style as DateStyle)
+    ? (style as DateStyle)
+    : type === 'date'
+      ? 'medium'
+      : 'short';
+
+  return new Intl.DateTimeFormat(
+    locale,
+    type === 'date' ? { dateStyle } : { timeStyle: dateStyle }
+  ).format(value);
+}
+
+/**
+ * Format a simple argument value for the locale
+ */
+function formatValue(value: TranslationValue, locale: string): string {
+  if (typeof value === 'number') {
+    return formatNumber(value, locale);
+  }
+  if (value instanceof Date) {
+    return formatDate(value, locale, 'date', 'medium');
+  }
+  return value;
+}
+
+/**
+ * Format one `{...}` argument
+ * @param body - Argument without the surrounding braces
+ * @param original - Argument with braces, kept when its value is missing
+ */
+function formatArgument(
+  body: string,
+  original: string,
+  values: Record<string, TranslationValue>,
+  locale: string
+): string {
+  const { name, type, style } = parseArgument(body);
+  const value = ARGUMENT_NAME.test(name) ? values[name] : undefined;
+
+  if (value === undefined || value === '') {
+    return original;
+  }
+
+  switch (type) {
+    case 'number':
+      return formatNumber(Number(value), locale, style);
+
+    case 'date':
+    case 'time':
+      return formatDate(value instanceof Date ? value : new Date(value), locale, type, style);
+
+    case 'plural':
+    case 'selectordinal': {
+      const count = Number(value);
+      const branches = parseBranches(style);
+      const category = new Intl.PluralRules(locale, {
+        type: type === 'plural' ? 'cardinal' : 'ordinal'
+      }).select(count);
+      const branch = branches.get(`=${count}`) ?? branches.get(category) ?? branches.get('other');
+
+      return branch === undefined ? original : formatMessage(branch, values, locale, count);
+    }
+
+    case 'select': {
+      const branches = parseBranches(style);
+      const branch = branches.get(String(value)) ?? branches.get('other');
+
+      return branch === undefined ? original : formatMessage(branch, values, locale);
+    }
+
+    default:
+      return formatValue(value, locale);
+  }
+}
+
+/**
+ * Format an ICU-style message
+ * @param template - The message with `{argument}` markers
+ * @param values - Values of the arguments; missing arguments are left as they are
+ * @param locale - Locale used for plural rules, numbers and dates (e.g. 'pt-br')
+ * @param pluralValue - Number `#` stands for, inside a plural branch
+ * @returns The formatted message
+ */
+export function formatMessage(
+  template: string,
+  values: Record<string, TranslationValue>,
+  locale: string,
+  pluralValue?: number
+): string {
+  let result = '';
+  let i = 0;
+
+  while (i < template.length) {
+    const char = template[i] ?? '';
+
+    if (char === '{') {
+      const end = findClosingBrace(template, i);
+      if (end === -1) {
+        return result + template.slice(i);
+      }
+
+      result += formatArgument(
+        template.slice(i + 1, end),
+        template.slice(i, end + 1),
+        values,
+        locale
+      );
+      i = end + 1;
+    } else if (char === '#' && pluralValue !== undefined) {
+      result += formatNumber(pluralValue, locale);
+      i++;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get the sorted, unique argument names of a message, including those inside branches
+ * @param template - The message with `{argument}` markers
+ */
+export function getMessageArguments(template: string): string[] {
+  const names = new Set<string>();
+  let i = 0;
+
+  while (i < template.length) {
+    const start = template.indexOf('{', i);
+    if (start === -1) {
+      break;
+    }
+
+    const end = findClosingBrace(template, start);
+    if (end === -1) {
+      break;
+    }
+
+    const { name, type, style } = parseArgument(template.slice(start + 1, end));
+    if (!ARGUMENT_NAME.test(name)) {
+      i = start + 1;
+      continue;
+    }
+
+    names.add(name);
+    if (type === 'plural' || type === 'selectordinal' || type === 'select') {
+      parseBranches(style).forEach(branch =>
+        getMessageArguments(branch).forEach(n => names.add(n))
+      );
+    }
+    i = end + 1;
+  }
+
+  return Array.from(names).sort();
+}
@@ -0,0 +1,178 @@
+/**
+ * Translation validation for Kubito
+ *
+ * Translation files are cast to `ITranslations` without any runtime check, and
+ * missing message keys silently fall back to the raw key in the webview.
+ * Features:
+ * - Missing and extra keys per language, compared to the reference language
+ * - Placeholder mismatches (e.g. `{count}` missing in a translation)
+ * - Message keys used by the webview and contextual messages that do not exist
+ */
+
+import { getMessageArguments } from './messageFormat';
+
+/**
+ * Problems found in one language
+ */
+export interface ILanguageIssues {
+  language: string;
+  missing: string[]; // Keys of the reference language not translated
+  extra: string[]; // Keys not in the reference language
+  placeholderMismatches: string[]; // Keys whose placeholders differ from the reference
+}
+
+/**
+ * Result of validating all translations
+ */
+export interface ITranslationReport {
+  referenceLanguage: string;
+  languages: ILanguageIssues[];
+  unknownMessageKeys: string[]; // Used message keys missing from the reference language
+}
+
+/**
+ * Flatten nested translations into dot notation keys (e.g. 'messages.sleeping')
+ * @param value - Translations object or nested section
+ * @param prefix - Key prefix of the section
+ * @returns Map of flattened keys to translated strings
+ */
+export function flattenTranslations(value: unknown, prefix: string = ''): Record<string, string> {
+  const flattened: Record<string, string> = {};
+
+  if (!value || typeof value !== 'object') {
+    return flattened;
+  }
+
+  Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (typeof item === 'string') {
+      flattened[path] = item;
+    } else {
+      Object.assign(flattened, flattenTranslations(item, path));
+    }
+  });
+
+  return flattened;
+}
+
+/**
+ * Validate all translations against the reference language
+ * @param translations - Translations per language code
+ * @param usedMessageKeys - Keys of the `messages` section referenced by code
+ * @param partialLanguages - Regional variants that only override some keys (never missing any)
+ * @param referenceLanguage - Language every other language is compared to
+ * @returns Report with the problems found
+ */
+export function validateTranslations(
+  translations: Record<string, unknown>,
+  usedMessageKeys: readonly string[] = [],
+  partialLanguages: readonly string[] = [],
+  referenceLanguage: string = 'en'
+): ITranslationReport {
+  const reference = flattenTranslations(translations[referenceLanguage]);
+
+  const languages = Object.entries(translations)
+    .filter(([language]) => language !== referenceLanguage)
+    .map(([language, value]): ILanguageIssues => {
+      const flattened = flattenTranslations(value);
+      const referenceKeys = Object.keys(reference);
+
+      return {
+        language,
+        missing: partialLanguages.includes(language)
+          ? []
+          : referenceKeys.filter(key => !(key in flattened)),
+        extra: Object.keys(flattened).filter(key => !(key in reference)),
+        placeholderMismatches: referenceKeys.filter(
+          key =>
+            key in flattened &&
+            getMessageArguments(reference[key] ?? '').join() !==
+              getMessageArguments(flattened[key] ?? '').join()
+        )
+      };
+    });
+
+  const unknownMessageKeys = Array.from(new Set(usedMessageKeys)).filter(
+    key => !(`messages.${key}` in reference)
+  );
+
+  return { referenceLanguage, languages, unknownMessageKeys };
+}
+
+/**
+ * Check whether a report has no problems
+ */
+export function isTranslationReportClean(report: ITranslationReport): boolean {
+  return (
+    report.unknownMessageKeys.length === 0 &&
+    report.languages.every(
+      issues =>
+        issues.missing.length === 0 &&
+        issues.extra.length === 0 &&
+        issues.placeholderMismatches.length === 0
+    )
+  );
+}
+
+/**
+ * Extract the message keys the compiled webview script references
+ * Reads `CONTEXTUAL_MESSAGES`, `getMessageMap()` and `getWebviewTranslation()` calls
+ * @param source - Source of the webview script
+ */
+export function extractWebviewMessageKeys(source: string): string[] {
+  const keys = new Set<string>();
+  const addQuoted = (block: string): void => {
+    Array.from(block.matchAll(/'(\w+)'/g)).forEach(match => keys.add(match[1] ?? ''));
+  };
+
+  const contextualBlock = /const CONTEXTUAL_MESSAGES\b[^=]*=\s*\{([\s\S]*?)\n\};/.exec(source);
+  addQuoted(contextualBlock?.[1] ?? '');
+
+  const messageMapBlock =
+    /function getMessageMap\(\)[\s\S]*?const textMessages[^=]*=\s*\[([\s\S]*?)\];/.exec(source);
+  addQuoted(messageMapBlock?.[1] ?? '');
+
+  Array.from(source.matchAll(/getWebviewTranslation\('(\w+)'\)/g)).forEach(match =>
+    keys.add(match[1] ?? '')
+  );
+
+  keys.delete('');
+  return Array.from(keys);
+}
+
+/**
+ * Format a report as Markdown
+ * @param report - The validation report
+ */
+export function formatTranslationReport(report: ITranslationReport): string {
+  const list = (keys: string[]): string => keys.map(key => `\`${key}\``).join(', ');
+  const lines = [
+    '# Kubito Translation Report',
+    '',
+    `Reference language: \`${report.referenceLanguage}\``,
+    ''
+  ];
+
+  if (report.unknownMessageKeys.length > 0) {
+    lines.push('## Message keys used but not translated', '', list(report.unknownMessageKeys), '');
+  }
+
+  report.languages.forEach(issues => {
+    const problems = [
+      issues.missing.length > 0 ? `- Missing: ${list(issues.missing)}` : '',
+      issues.extra.length > 0 ? `- Extra: ${list(issues.extra)}` : '',
+      issues.placeholderMismatches.length > 0
+        ? `- Placeholder mismatches: ${list(issues.placeholderMismatches)}`
+        : ''
+    ].filter(Boolean);
+
+    lines.push(
+      `## \`${issues.language}\``,
+      '',
+      ...(problems.length > 0 ? problems : ['✅ Complete']),
+      ''
+    );
+  });
+
+  return lines.join('\n');
+}
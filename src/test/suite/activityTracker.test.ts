@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import { ActivityTracker, ActivityState } from '../../core/activityTracker';
+
+const MINUTE = 60 * 1000;
+const IDLE_THRESHOLD_MS = 5 * MINUTE;
+
+/**
+ * Create a tracker starting at time 0 that records its state changes
+ */
+function createTracker(): { tracker: ActivityTracker; states: ActivityState[] } {
+  const states: ActivityState[] = [];
+  const tracker = new ActivityTracker(IDLE_THRESHOLD_MS, 0);
+  tracker.onDidChangeState(change => states.push(change.current));
+
+  return { tracker, states };
+}
+
+/**
+ * Test suite for the activity tracker
+ *
+ * Uses explicit timestamps to validate active segments and the
+ * active, idle and away transitions without waiting for real time.
+ */
+suite('Activity Tracker Test Suite', () => {
+  test('Should count time between close activity signals', () => {
+    const { tracker } = createTracker();
+    tracker.recordActivity('edit', 1 * MINUTE);
+    tracker.recordActivity('selection', 3 * MINUTE);
+    tracker.recordActivity('terminal', 4 * MINUTE);
+
+    assert.strictEqual(tracker.getActiveTimeMs(4 * MINUTE), 4 * MINUTE);
+    assert.strictEqual(tracker.getState(), 'active');
+    tracker.dispose();
+  });
+
+  test('Should not count idle gaps', () => {
+    const { tracker, states } = createTracker();
+    tracker.recordActivity('edit', 2 * MINUTE);
+    tracker.recordActivity('edit', 20 * MINUTE);
+    tracker.recordActivity('scroll', 21 * MINUTE);
+
+    assert.strictEqual(tracker.getActiveTimeMs(21 * MINUTE), 3 * MINUTE);
+    assert.deepStrictEqual(states, ['idle', 'active']);
+    assert.deepStrictEqual(tracker.getSegments(), [{ start: 0, end: 2 * MINUTE }]);
+    tracker.dispose();
+  });
+
+  test('Should never decrease active time', () => {
+    const { tracker } = createTracker();
+    tracker.recordActivity('edit', 2 * MINUTE);
+
+    const beforeIdle = tracker.getActiveTimeMs(4 * MINUTE);
+    const afterIdle = tracker.getActiveTimeMs(30 * MINUTE);
+
+    assert.strictEqual(beforeIdle, 2 * MINUTE);
+    assert.strictEqual(afterIdle, 2 * MINUTE);
+    assert.strictEqual(tracker.getState(), 'idle');
+    tracker.dispose();
+  });
+
+  test('Should ignore activity while the window is not focused', () => {
+    const { tracker, states } = createTracker();
+    tracker.recordActivity('edit', 1 * MINUTE);
+    tracker.setWindowFocused(false, 2 * MINUTE);
+    tracker.recordActivity('edit', 3 * MINUTE);
+    tracker.setWindowFocused(true, 10 * MINUTE);
+    tracker.recordActivity('edit', 11 * MINUTE);
+
+    assert.deepStrictEqual(states, ['away', 'active']);
+    assert.strictEqual(tracker.getActiveTimeMs(11 * MINUTE), 2 * MINUTE);
+    tracker.dispose();
+  });
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { parseCustomMessages } from '../../core/customMessages';
+
+const WORKSPACE = vscode.Uri.file('/workspace/project');
+
+/**
+ * Test suite for custom message packs
+ *
+ * Validates how setting and workspace file entries are parsed
+ * into messages, including defaults, limits and image paths.
+ */
+suite('Custom Messages Test Suite', () => {
+  test('Should apply defaults and skip entries without content', () => {
+    const messages = parseCustomMessages([{ content: ' Ship it! ' }, { type: 'emoji' }, 'text']);
+
+    assert.deepStrictEqual(messages, [
+      { type: 'text', content: 'Ship it!', weight: 1, contexts: [], languages: [] }
+    ]);
+  });
+
+  test('Should clamp weights and keep only known contexts', () => {
+    const [heavy, light] = parseCustomMessages([
+      { content: 'Heavy', weight: 50, contexts: ['friday', 'someday'], languages: ['ES'] },
+      { content: 'Light', weight: -3 }
+    ]);
+
+    assert.strictEqual(heavy?.weight, 10);
+    assert.deepStrictEqual(heavy?.contexts, ['friday']);
+    assert.deepStrictEqual(heavy?.languages, ['es']);
+    assert.strictEqual(light?.weight, 1);
+  });
+
+  test('Should resolve images inside the workspace folder only', () => {
+    const messages = parseCustomMessages(
+      [
+        { type: 'image', content: 'assets/logo.png', alt: 'Logo' },
+        { type: 'image', content: '../secrets/logo.png' }
+      ],
+      WORKSPACE
+    );
+
+    assert.strictEqual(messages.length, 1);
+    assert.strictEqual(messages[0]?.imageUri?.path, '/workspace/project/assets/logo.png');
+    assert.strictEqual(messages[0]?.alt, 'Logo');
+  });
+
+  test('Should skip images without a workspace folder', () => {
+    const messages = parseCustomMessages([{ type: 'image', content: 'assets/logo.png' }]);
+
+    assert.deepStrictEqual(messages, []);
+  });
+});
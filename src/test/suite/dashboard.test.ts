@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { getDashboardBody, getDashboardContent } from '../../core/dashboard';
+import { setLanguage } from '../../localization';
+import { createDay } from './fixtures';
+
+/**
+ * Test suite for the productivity dashboard rendering
+ */
+suite('Dashboard Test Suite', () => {
+  test('Should render without history or session', () => {
+    const html = getDashboardContent({ session: undefined, history: [], days: ['2025-03-10'] });
+
+    assert.ok(html.includes('Kubito Productivity Dashboard'), 'Should render the title');
+    assert.ok(html.includes('No activity recorded yet.'), 'Should show empty chart placeholders');
+
+    const nonce = /script-src 'nonce-([^']+)'/.exec(html)?.[1];
+    assert.ok(nonce, 'Scripts should need a nonce');
+    assert.strictEqual(
+      html.split('<script').length - 1,
+      1,
+      'Should only contain the refresh script'
+    );
+    assert.ok(
+      html.includes(`<script nonce="${nonce}">`),
+      'The refresh script should carry the nonce'
+    );
+  });
+
+  test('Should send refreshed content without the page around it', () => {
+    const data = { session: undefined, history: [], days: ['2025-03-10'] };
+    const body = getDashboardBody(data);
+
+    assert.ok(body.includes('Kubito Productivity Dashboard'), 'Should render the title');
+    assert.ok(!body.includes('<html') && !body.includes('<script'), 'Should be a fragment');
+    assert.ok(getDashboardContent(data).includes(body), 'The page should wrap the same content');
+  });
+
+  test('Should render charts from history', () => {
+    const html = getDashboardContent({
+      session: undefined,
+      history: [
+        createDay('2025-03-09', { linesWritten: 40, linesDeleted: 5, languages: { python: 40 } }),
+        createDay('2025-03-10', {
+          linesWritten: 80,
+          activeTimeMs: 60 * 60 * 1000,
+          sessionTimeMs: 2 * 60 * 60 * 1000,
+          languages: { typescript: 80 }
+        })
+      ],
+      days: ['2025-03-09', '2025-03-10']
+    });
+
+    assert.ok(html.includes('<svg'), 'Should render SVG charts');
+    assert.ok(html.includes('typescript'), 'Should list languages');
+    assert.ok(html.includes('var(--vscode-charts-green)'), 'Should use theme chart colors');
+  });
+
+  test('Should escape language names', () => {
+    const html = getDashboardContent({
+      session: undefined,
+      history: [createDay('2025-03-10', { languages: { '<b>x</b>': 3 } })],
+      days: ['2025-03-10']
+    });
+
+    assert.ok(!html.includes('<b>x</b>'), 'Should not inject raw HTML');
+    assert.ok(html.includes('&lt;b&gt;x&lt;/b&gt;'), 'Should escape HTML');
+  });
+
+  test('Should render in the current language', () => {
+    setLanguage('ar');
+    const html = getDashboardContent({ session: undefined, history: [], days: ['2025-03-10'] });
+    setLanguage('en');
+
+    assert.ok(html.includes('<html lang="ar" dir="rtl">'), 'Should set the language and direction');
+    assert.ok(html.includes('لوحة إنتاجية Kubito'), 'Should translate the title');
+    assert.ok(!html.includes('No activity recorded yet.'), 'Should not fall back to English');
+  });
+});
@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import {
+  classifyDiagnosticsChange,
+  countDiagnostics,
+  DiagnosticsState,
+  getDiagnosticsMessageKey
+} from '../../core/diagnosticsWatcher';
+
+/**
+ * Create a diagnostic with the given severity
+ */
+function diagnostic(severity: vscode.DiagnosticSeverity): vscode.Diagnostic {
+  return new vscode.Diagnostic(new vscode.Range(0, 0, 0, 1), 'problem', severity);
+}
+
+/**
+ * Test suite for the diagnostics watcher
+ *
+ * Validates error and warning counts and which changes Kubito reacts to.
+ */
+suite('Diagnostics Watcher Test Suite', () => {
+  test('Should count errors and warnings', () => {
+    assert.deepStrictEqual(
+      countDiagnostics([
+        diagnostic(vscode.DiagnosticSeverity.Error),
+        diagnostic(vscode.DiagnosticSeverity.Error),
+        diagnostic(vscode.DiagnosticSeverity.Warning),
+        diagnostic(vscode.DiagnosticSeverity.Hint)
+      ]),
+      { errors: 2, warnings: 1 }
+    );
+  });
+
+  test('Should react to broken files and to zero errors', () => {
+    const clean = new Map([['a.ts', 0]]);
+
+    assert.strictEqual(classifyDiagnosticsChange(clean, new Map([['a.ts', 1]])), 'broken');
+    assert.strictEqual(
+      classifyDiagnosticsChange(new Map([['a.ts', 1]]), new Map([['a.ts', 3]])),
+      undefined
+    );
+    assert.strictEqual(
+      classifyDiagnosticsChange(new Map([['a.ts', 2]]), new Map([['a.ts', 0]])),
+      'fixed'
+    );
+    assert.strictEqual(classifyDiagnosticsChange(clean, clean), undefined);
+  });
+
+  test('Should not take files never seen before for broken files', () => {
+    const state = new DiagnosticsState();
+
+    assert.strictEqual(state.update(new Map([['a.ts', { errors: 2, warnings: 0 }]])), undefined);
+
+    state.update(new Map([['b.ts', { errors: 0, warnings: 0 }]]));
+    assert.deepStrictEqual(state.update(new Map([['b.ts', { errors: 1, warnings: 0 }]])), {
+      kind: 'broken',
+      counts: { errors: 3, warnings: 0 },
+      previousErrors: 2
+    });
+  });
+
+  test('Should ignore diagnostics cleared by closing a document', () => {
+    const state = new DiagnosticsState();
+    state.setFile('a.ts', { errors: 2, warnings: 1 });
+
+    state.closeFile('a.ts');
+    assert.strictEqual(state.update(new Map([['a.ts', { errors: 0, warnings: 0 }]])), undefined);
+    assert.deepStrictEqual(state.getCounts(), { errors: 0, warnings: 0 });
+
+    state.setFile('b.ts', { errors: 1, warnings: 0 });
+    state.closeFile('b.ts');
+    state.openFile('b.ts');
+    assert.strictEqual(
+      state.update(new Map([['b.ts', { errors: 0, warnings: 0 }]]))?.kind,
+      'fixed'
+    );
+  });
+
+  test('Should pick the reaction from the errors before the change', () => {
+    const counts = { errors: 1, warnings: 0 };
+
+    assert.strictEqual(
+      getDiagnosticsMessageKey({ kind: 'broken', counts, previousErrors: 0 }),
+      'messages.syntaxError'
+    );
+    assert.strictEqual(
+      getDiagnosticsMessageKey({ kind: 'broken', counts, previousErrors: 3 }),
+      'messages.oneMoreBug'
+    );
+    assert.strictEqual(
+      getDiagnosticsMessageKey({ kind: 'fixed', counts, previousErrors: 3 }),
+      'messages.noMoreBugs'
+    );
+  });
+});
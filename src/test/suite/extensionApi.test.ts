@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { KubitoApi, toApiMessage } from '../../core/extensionApi';
+import { RateLimiter } from '../../core/rateLimiter';
+import { IMessage } from '../../webview/protocol';
+
+/**
+ * Test suite for the public extension API
+ *
+ * Validates how messages from other extensions are checked
+ * and limited before Kubito shows them.
+ */
+suite('Extension API Test Suite', () => {
+  test('Should limit events per window and between events', () => {
+    const limiter = new RateLimiter(2, 60000, 5000);
+
+    assert.ok(limiter.isIdle(0));
+    assert.ok(limiter.canAcquire(0) && limiter.canAcquire(0), 'Checking should not accept events');
+    assert.ok(limiter.tryAcquire(0));
+    assert.ok(!limiter.isIdle(1000));
+    assert.ok(!limiter.tryAcquire(1000), 'Should refuse events closer than the interval');
+    assert.ok(limiter.tryAcquire(6000));
+    assert.ok(!limiter.tryAcquire(20000), 'Should refuse events once the window is full');
+    assert.ok(limiter.tryAcquire(60000), 'Should accept events once old ones leave the window');
+  });
+
+  test('Should accept only non-empty text and emoji messages', () => {
+    assert.deepStrictEqual(toApiMessage('  Deployed! '), { type: 'text', content: 'Deployed!' });
+    assert.deepStrictEqual(toApiMessage({ type: 'emoji', content: '🚀' }), {
+      type: 'emoji',
+      content: '🚀'
+    });
+    assert.strictEqual(toApiMessage({ type: 'image', content: 'logo.png' }), undefined);
+    assert.strictEqual(toApiMessage('   '), undefined);
+    assert.strictEqual(toApiMessage(42), undefined);
+    assert.strictEqual(toApiMessage('x'.repeat(500))?.content.length, 140);
+  });
+
+  test('Should rate limit messages shown through the API', () => {
+    const shown: IMessage[] = [];
+    const emitter = new vscode.EventEmitter<never>();
+    const api = new KubitoApi({
+      canShowMessage: () => true,
+      holdBack: () => false,
+      showMessage: message => shown.push(message),
+      onDidInteract: emitter.event
+    });
+
+    assert.ok(api.say('Build passed'));
+    assert.ok(!api.react('celebrate'), 'Should refuse messages right after another one');
+    assert.ok(!api.say(''));
+    assert.ok(api.say('Deployed', 'other.extension'), 'Should limit each caller id separately');
+    assert.ok(api.say('Tests passed', 'third.extension'));
+    assert.ok(
+      !api.say('Released', 'fourth.extension'),
+      'Should share one limit between all caller ids'
+    );
+    assert.deepStrictEqual(shown, [
+      { type: 'text', content: 'Build passed' },
+      { type: 'text', content: 'Deployed' },
+      { type: 'text', content: 'Tests passed' }
+    ]);
+
+    api.dispose();
+    emitter.dispose();
+  });
+
+  test('Should only ask focus mode about messages the limit allows', () => {
+    let heldBack = 0;
+    const emitter = new vscode.EventEmitter<never>();
+    const api = new KubitoApi({
+      canShowMessage: () => true,
+      holdBack: () => {
+        heldBack++;
+        return heldBack === 1;
+      },
+      showMessage: () => undefined,
+      onDidInteract: emitter.event
+    });
+
+    assert.ok(!api.say('Held back'), 'Should refuse messages focus mode holds back');
+    assert.ok(api.say('Shown'), 'Held back messages should not count toward the limit');
+    assert.ok(!api.say('Too soon'));
+    assert.strictEqual(heldBack, 2, 'Should not ask focus mode about rate limited messages');
+
+    api.dispose();
+    emitter.dispose();
+  });
+
+  test('Should not use up the limit while Kubito cannot talk', () => {
+    let canShow = false;
+    const shown: IMessage[] = [];
+    const emitter = new vscode.EventEmitter<never>();
+    const api = new KubitoApi({
+      canShowMessage: () => canShow,
+      holdBack: () => false,
+      showMessage: message => shown.push(message),
+      onDidInteract: emitter.event
+    });
+
+    assert.ok(!api.say('Hidden'), 'Should refuse messages while Kubito cannot talk');
+    canShow = true;
+    assert.ok(api.say('Visible'), 'Refused messages should not count toward the limit');
+    assert.deepStrictEqual(shown, [{ type: 'text', content: 'Visible' }]);
+
+    api.dispose();
+    emitter.dispose();
+  });
+});
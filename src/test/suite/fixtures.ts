@@ -0,0 +1,25 @@
+import { IDailyMetrics } from '../../core/metricsHistory';
+
+/**
+ * Build a daily record with sensible defaults, in a single-folder workspace
+ * (the workspace id is the folder URI, as stored by the productivity manager)
+ * @param date - Day of the record
+ * @param overrides - Fields to change
+ */
+export function createDay(date: string, overrides: Partial<IDailyMetrics> = {}): IDailyMetrics {
+  return {
+    date,
+    workspace: 'file:///home/dev/project',
+    workspaceName: 'project',
+    linesWritten: 0,
+    linesDeleted: 0,
+    filesModified: [],
+    totalKeystrokes: 0,
+    activeTimeMs: 0,
+    sessionTimeMs: 0,
+    languages: {},
+    pomodorosCompleted: 0,
+    branches: {},
+    ...overrides
+  };
+}
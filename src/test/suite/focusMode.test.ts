@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { FocusMode, DeferredCounts } from '../../core/focusMode';
+
+/**
+ * Create focus mode that records the summaries it reports
+ */
+function createFocusMode(): { focusMode: FocusMode; summaries: DeferredCounts[] } {
+  const summaries: DeferredCounts[] = [];
+  const focusMode = new FocusMode({
+    onChange: () => undefined,
+    onEnd: deferred => summaries.push(deferred)
+  });
+
+  return { focusMode, summaries };
+}
+
+/**
+ * Test suite for focus mode
+ *
+ * Validates that messages are held back while focused and summarized afterwards.
+ */
+suite('Focus Mode Test Suite', () => {
+  test('Should not hold back messages when off', () => {
+    const { focusMode } = createFocusMode();
+
+    assert.strictEqual(focusMode.isActive(), false);
+    assert.strictEqual(focusMode.defer('reaction'), false);
+    focusMode.dispose();
+  });
+
+  test('Should summarize held back messages when turned off', () => {
+    const { focusMode, summaries } = createFocusMode();
+    focusMode.enable();
+
+    assert.strictEqual(focusMode.defer('reaction'), true);
+    assert.strictEqual(focusMode.defer('reaction'), true);
+    assert.strictEqual(focusMode.defer('reminder'), true);
+
+    focusMode.disable();
+    assert.strictEqual(focusMode.isActive(), false);
+    assert.deepStrictEqual(summaries, [{ reaction: 2, reminder: 1, metrics: 0 }]);
+    focusMode.dispose();
+  });
+
+  test('Should ignore automatic reasons unless opted in', () => {
+    const { focusMode } = createFocusMode();
+    focusMode.setAutoReason('debug', true);
+
+    assert.strictEqual(focusMode.isActive(), false, 'Automatic activation is off by default');
+    focusMode.dispose();
+  });
+});
@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import {
+  classifyGitChange,
+  DEFAULT_TICKET_PATTERN,
+  IGitSnapshot,
+  parseGitDirLink,
+  parseTicketId
+} from '../../core/gitIntegration';
+
+/**
+ * Create a repository snapshot on main, in sync with its upstream
+ */
+function snapshot(overrides: Partial<IGitSnapshot> = {}): IGitSnapshot {
+  return {
+    branch: 'main',
+    commit: 'a',
+    upstreamCommit: 'a',
+    behind: 0,
+    rebasing: false,
+    ...overrides
+  };
+}
+
+/**
+ * Test suite for the Git integration
+ *
+ * Validates how repository state changes are turned into Git operations.
+ */
+suite('Git Integration Test Suite', () => {
+  test('Should detect commits and pushes', () => {
+    assert.strictEqual(
+      classifyGitChange(snapshot(), snapshot({ commit: 'b' }), ['a']),
+      'committed'
+    );
+    assert.strictEqual(
+      classifyGitChange(snapshot({ commit: 'b' }), snapshot({ commit: 'b', upstreamCommit: 'b' })),
+      'pushed'
+    );
+  });
+
+  test('Should detect pulls, including merge pulls', () => {
+    assert.strictEqual(
+      classifyGitChange(snapshot(), snapshot({ commit: 'b', upstreamCommit: 'b' }), ['a']),
+      'pulled'
+    );
+    assert.strictEqual(
+      classifyGitChange(snapshot({ commit: 'b' }), snapshot({ commit: 'm', upstreamCommit: 'c' }), [
+        'b',
+        'c'
+      ]),
+      'pulled'
+    );
+  });
+
+  test('Should tell branch switches, merges and rebases apart', () => {
+    assert.strictEqual(
+      classifyGitChange(snapshot(), snapshot({ branch: 'feature', commit: 'f' })),
+      'branchSwitched'
+    );
+    assert.strictEqual(
+      classifyGitChange(snapshot(), snapshot({ commit: 'm' }), ['a', 'f']),
+      'merged'
+    );
+    assert.strictEqual(
+      classifyGitChange(snapshot({ rebasing: true }), snapshot({ commit: 'r' })),
+      'rebased'
+    );
+    assert.strictEqual(classifyGitChange(snapshot({ rebasing: true }), snapshot()), undefined);
+  });
+
+  test('Should ignore fetches, resets and loading repositories', () => {
+    assert.strictEqual(classifyGitChange(snapshot(), snapshot({ upstreamCommit: 'c' })), undefined);
+    assert.strictEqual(classifyGitChange(snapshot({ commit: 'b' }), snapshot(), ['x']), undefined);
+    assert.strictEqual(classifyGitChange({ behind: 0, rebasing: false }, snapshot()), undefined);
+  });
+
+  test('Should parse ticket IDs from branch names', () => {
+    assert.strictEqual(parseTicketId('feature/ABC-123-login', DEFAULT_TICKET_PATTERN), 'ABC-123');
+    assert.strictEqual(parseTicketId('main', DEFAULT_TICKET_PATTERN), undefined);
+    assert.strictEqual(parseTicketId('fix/gh-42-typo', 'gh-(\\d+)'), '42');
+    assert.strictEqual(parseTicketId('feature/ABC-123', ''), undefined);
+    assert.strictEqual(parseTicketId('feature/ABC-123', '[unclosed'), undefined);
+  });
+
+  test('Should read the git folder of worktrees and submodules', () => {
+    assert.strictEqual(parseGitDirLink('gitdir: ../.git/modules/lib\n'), '../.git/modules/lib');
+    assert.strictEqual(
+      parseGitDirLink('gitdir: /home/dev/project/.git/worktrees/feature\r\n'),
+      '/home/dev/project/.git/worktrees/feature'
+    );
+    assert.strictEqual(parseGitDirLink(''), undefined);
+    assert.strictEqual(parseGitDirLink('ref: refs/heads/main'), undefined);
+  });
+});
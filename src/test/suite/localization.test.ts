@@ -6,6 +6,8 @@ import {
   getCurrentTranslations,
   getCurrentLanguage,
   getAvailableLanguages,
+  getLanguageDirection,
+  getFallbackChain,
   t,
   formatTranslation
 } from '../../localization';
@@ -39,7 +41,28 @@ suite('Localization Test Suite', () => {
     assert.ok(languages.includes('de'), 'Should include German');
     assert.ok(languages.includes('pt'), 'Should include Portuguese');
     assert.ok(languages.includes('it'), 'Should include Italian');
-    assert.strictEqual(languages.length, 14, 'Should have exactly 14 languages');
+    assert.ok(languages.includes('pt-br'), 'Should include Brazilian Portuguese');
+    assert.strictEqual(languages.length, 18, 'Should have 14 languages and 4 regional variants');
+  });
+
+  /**
+   * Test regional variants falling back key by key
+   */
+  test('Should resolve regional variants through their fallback chain', () => {
+    assert.deepStrictEqual(getFallbackChain('pt-br'), ['pt-br', 'pt', 'en']);
+    assert.deepStrictEqual(getFallbackChain('en-gb'), ['en-gb', 'en']);
+    assert.deepStrictEqual(getFallbackChain('fr'), ['fr', 'en']);
+
+    const ptBr = setLanguage('pt-br');
+    assert.strictEqual(getCurrentLanguage(), 'pt-br', 'Should set the regional variant');
+    assert.strictEqual(ptBr.messages.letsCode, 'Bora codar! 🚀', 'Should use the regional key');
+    assert.strictEqual(ptBr.messages.tired, 'Preciso dormir... 😴', 'Should fall back to pt');
+
+    const zhTw = setLanguage('zh-tw');
+    assert.strictEqual(zhTw.messages.hoHoHo, '呵呵呵！ 🎅', 'Should fall back to zh-cn');
+    assert.strictEqual(t('reminders.skipToday'), '今天略過', 'Should translate with t()');
+
+    setLanguage('en');
   });
 
   /**
@@ -157,6 +180,67 @@ suite('Localization Test Suite', () => {
     assert.ok(translations.commands.hide, 'Should have hide command');
   });
 
+  /**
+   * Test plural categories of each language
+   */
+  test('Should pick plural forms with the language plural rules', () => {
+    const files = '{count, plural, =0 {No files} one {# file} other {# files}}';
+    assert.strictEqual(formatTranslation(files, { count: 0 }, 'en'), 'No files');
+    assert.strictEqual(formatTranslation(files, { count: 1 }, 'en'), '1 file');
+    assert.strictEqual(formatTranslation(files, { count: 1500 }, 'en'), '1,500 files');
+
+    setLanguage('ru');
+    assert.strictEqual(t('reminders.streak', { count: 1 }), '🔥 1 день подряд!');
+    assert.strictEqual(t('reminders.streak', { count: 3 }), '🔥 3 дня подряд!');
+    assert.strictEqual(t('reminders.streak', { count: 5 }), '🔥 5 дней подряд!');
+
+    setLanguage('pl');
+    assert.strictEqual(
+      t('productivity.metrics.filesModified', { count: 22 }),
+      'Zmodyfikowano 22 pliki'
+    );
+    assert.strictEqual(
+      t('productivity.metrics.filesModified', { count: 25 }),
+      'Zmodyfikowano 25 plików'
+    );
+
+    setLanguage('en');
+    assert.strictEqual(
+      t('productivity.metrics.linesChanged', { written: 1, deleted: 4 }),
+      '1 line written, 4 deleted'
+    );
+  });
+
+  /**
+   * Test number and date arguments
+   */
+  test('Should format numbers and dates for the language', () => {
+    assert.strictEqual(formatTranslation('{value, number}', { value: 1234.5 }, 'de'), '1.234,5');
+    assert.strictEqual(formatTranslation('{ratio, number, percent}', { ratio: 0.25 }, 'en'), '25%');
+    assert.strictEqual(
+      formatTranslation('{day, date, long}', { day: new Date(2024, 11, 25) }, 'en'),
+      'December 25, 2024'
+    );
+    assert.strictEqual(
+      formatTranslation('while(true) { coffee++; } {count}', { count: 2 }, 'en'),
+      'while(true) { coffee++; } 2',
+      'Should keep braces that are not arguments'
+    );
+  });
+
+  /**
+   * Test text direction of languages
+   */
+  test('Should report right-to-left languages', () => {
+    assert.strictEqual(getLanguageDirection('ar'), 'rtl', 'Arabic should be right-to-left');
+    assert.strictEqual(getLanguageDirection('en'), 'ltr', 'English should be left-to-right');
+    assert.strictEqual(getLanguageDirection('ja'), 'ltr', 'Japanese should be left-to-right');
+
+    setLanguage('ar');
+    assert.strictEqual(getLanguageDirection(), 'rtl', 'Should default to the current language');
+    setLanguage('en');
+  });
+
   /**
    * Test fallback to default language
    */
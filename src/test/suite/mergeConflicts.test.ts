@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import { classifyConflictChange, countConflictMarkers } from '../../core/mergeConflicts';
+
+/**
+ * Test suite for the merge conflict tracker
+ *
+ * Validates conflict marker counting and how count changes are reported.
+ */
+suite('Merge Conflicts Test Suite', () => {
+  test('Should count complete conflict blocks', () => {
+    const conflict = ['<<<<<<< HEAD', 'ours', '=======', 'theirs', '>>>>>>> feature'].join('\n');
+    const diff3 = ['<<<<<<< ours', 'a', '||||||| base', 'b', '=======', 'c', '>>>>>>> theirs'];
+
+    assert.strictEqual(countConflictMarkers(`start\n${conflict}\nmiddle\n${conflict}\n`), 2);
+    assert.strictEqual(countConflictMarkers(diff3.join('\r\n')), 1);
+    assert.strictEqual(countConflictMarkers('<<<<<<< HEAD\nours\n=======\n'), 0);
+    assert.strictEqual(countConflictMarkers('// <<<<<<< not a marker\n========\n'), 0);
+  });
+
+  test('Should report found, progress and resolved changes', () => {
+    assert.strictEqual(classifyConflictChange(0, 3), 'found');
+    assert.strictEqual(classifyConflictChange(3, 2), 'progress');
+    assert.strictEqual(classifyConflictChange(2, 0), 'resolved');
+    assert.strictEqual(classifyConflictChange(2, 4), undefined);
+    assert.strictEqual(classifyConflictChange(0, 0), undefined);
+  });
+});
@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import { createHash } from 'crypto';
+import {
+  EXPORT_SCHEMA_VERSION,
+  IExportOptions,
+  anonymizeName,
+  anonymizePath,
+  buildExportRecords,
+  createAnonymizationSalt,
+  toCsv,
+  toJson
+} from '../../core/metricsExport';
+import { createDay } from './fixtures';
+
+/**
+ * Test suite for exporting the metrics history
+ */
+suite('Metrics Export Test Suite', () => {
+  const history = [
+    createDay('2025-03-08', { linesWritten: 5 }),
+    createDay('2025-03-09', {
+      linesWritten: 60,
+      activeTimeMs: 30 * 60 * 1000,
+      filesModified: ['/home/dev/project/src/app.ts'],
+      languages: { typescript: 50, json: 10 }
+    }),
+    createDay('2025-03-10', { workspace: 'file:///home/dev/other', workspaceName: 'other' })
+  ];
+
+  const options: IExportOptions = {
+    from: '2025-03-09',
+    to: '2025-03-10',
+    anonymize: false,
+    salt: 'test-salt'
+  };
+
+  test('Should filter records by date range and workspace', () => {
+    assert.strictEqual(buildExportRecords(history, options).length, 2);
+
+    const filtered = buildExportRecords(history, {
+      ...options,
+      workspace: 'file:///home/dev/other'
+    });
+    assert.strictEqual(filtered.length, 1);
+    assert.strictEqual(filtered[0]?.workspaceName, 'other');
+  });
+
+  test('Should derive per-day insights', () => {
+    const [record] = buildExportRecords(history, options);
+
+    assert.strictEqual(record?.activeMinutes, 30);
+    assert.strictEqual(record?.linesPerHour, 120);
+    assert.strictEqual(record?.mostActiveLanguage, 'typescript');
+  });
+
+  test('Should anonymize paths but keep extensions', () => {
+    const [record] = buildExportRecords(history, { ...options, anonymize: true });
+
+    assert.ok(!record?.workspace.includes('/home/dev'), 'Workspace path should be hidden');
+    assert.notStrictEqual(record?.workspaceName, 'project', 'Workspace name should be hidden');
+    assert.ok(record?.files[0]?.endsWith('.ts'), 'File extension should be kept');
+    assert.strictEqual(
+      anonymizePath('/home/dev/project/src/app.ts', 'test-salt'),
+      anonymizePath('/home/dev/project/src/app.ts', 'test-salt'),
+      'Anonymized paths should be stable'
+    );
+  });
+
+  test('Should hash names with the salt of the install', () => {
+    const unsalted = createHash('sha256').update('project').digest('hex').slice(0, 12);
+
+    assert.notStrictEqual(anonymizeName('project', 'test-salt'), unsalted);
+    assert.notStrictEqual(
+      anonymizeName('project', 'test-salt'),
+      anonymizeName('project', createAnonymizationSalt()),
+      'Other installs should get other hashes'
+    );
+  });
+
+  test('Should serialize CSV with a header row', () => {
+    const csv = toCsv(buildExportRecords(history, options));
+    const lines = csv.trim().split('\n');
+
+    assert.ok(lines[0]?.startsWith('date,workspace,workspaceName'), 'Should start with header');
+    assert.strictEqual(lines.length, 3, 'Should have a header and one line per record');
+    assert.ok(lines[1]?.includes('typescript:50;json:10'), 'Should flatten languages');
+  });
+
+  test('Should serialize JSON with schema metadata', () => {
+    const document = JSON.parse(toJson(buildExportRecords(history, options), options));
+
+    assert.strictEqual(document.schemaVersion, EXPORT_SCHEMA_VERSION);
+    assert.strictEqual(document.from, '2025-03-09');
+    assert.strictEqual(document.records.length, 2);
+  });
+});
@@ -0,0 +1,289 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import {
+  MetricsHistory,
+  IMetricsDelta,
+  getBranchKey,
+  getDateKey,
+  isDateKey,
+  getPeriodRange,
+  getRecordKey
+} from '../../core/metricsHistory';
+
+/**
+ * In-memory Memento used to test the history store without touching global state
+ */
+class MemoryMemento implements vscode.Memento {
+  private readonly values = new Map<string, unknown>();
+
+  keys(): readonly string[] {
+    return Array.from(this.values.keys());
+  }
+
+  get<T>(key: string, defaultValue?: T): T {
+    return (this.values.has(key) ? this.values.get(key) : defaultValue) as T;
+  }
+
+  update(key: string, value: unknown): Promise<void> {
+    // Like VS Code, storing undefined removes the key
+    if (value === undefined) {
+      this.values.delete(key);
+    } else {
+      this.values.set(key, value);
+    }
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Build a metrics delta with sensible defaults
+ */
+function createDelta(overrides: Partial<IMetricsDelta> = {}): IMetricsDelta {
+  return {
+    linesWritten: 0,
+    linesDeleted: 0,
+    filesModified: [],
+    totalKeystrokes: 0,
+    activeTimeMs: 0,
+    sessionTimeMs: 0,
+    languages: {},
+    pomodorosCompleted: 0,
+    branches: {},
+    ...overrides
+  };
+}
+
+/**
+ * Test suite for the daily metrics history store
+ *
+ * Validates that deltas are merged per day and workspace and that
+ * period summaries aggregate the right records.
+ */
+suite('Metrics History Test Suite', () => {
+  const workspaceA = { id: 'file:///a', name: 'a' };
+  const workspaceB = { id: 'file:///b', name: 'b' };
+
+  test('Should format local date keys', () => {
+    assert.strictEqual(getDateKey(new Date(2025, 0, 5)), '2025-01-05');
+    assert.strictEqual(getDateKey(new Date(2025, 11, 31)), '2025-12-31');
+  });
+
+  test('Should only accept existing days as date keys', () => {
+    assert.ok(isDateKey('2025-03-10'));
+    assert.ok(isDateKey('2024-02-29'), 'Leap days should be accepted');
+    assert.ok(!isDateKey('2025-02-29'), 'Days past the end of the month should be rejected');
+    assert.ok(!isDateKey('2025-13-01'), 'Months past December should be rejected');
+    assert.ok(!isDateKey('2025-3-10'), 'Unpadded values should be rejected');
+    assert.ok(!isDateKey('2025-03-10T00:00'), 'Timestamps should be rejected');
+  });
+
+  test('Should resolve period ranges', () => {
+    const now = new Date(2025, 2, 10);
+
+    assert.deepStrictEqual(getPeriodRange('today', now), { from: '2025-03-10', to: '2025-03-10' });
+    assert.deepStrictEqual(getPeriodRange('yesterday', now), {
+      from: '2025-03-09',
+      to: '2025-03-09'
+    });
+    assert.deepStrictEqual(getPeriodRange('last7Days', now), {
+      from: '2025-03-04',
+      to: '2025-03-10'
+    });
+  });
+
+  test('Should merge deltas for the same day and workspace', async () => {
+    const history = new MetricsHistory(new MemoryMemento());
+    const today = getDateKey(new Date());
+
+    await history.record(
+      today,
+      workspaceA,
+      createDelta({ linesWritten: 10, filesModified: ['x.ts'], languages: { typescript: 10 } })
+    );
+    await history.record(
+      today,
+      workspaceA,
+      createDelta({
+        linesWritten: 5,
+        filesModified: ['x.ts', 'y.ts'],
+        languages: { typescript: 5 }
+      })
+    );
+
+    const entries = history.getAll();
+    assert.strictEqual(entries.length, 1, 'Should keep a single record per day and workspace');
+    assert.strictEqual(entries[0]?.linesWritten, 15);
+    assert.deepStrictEqual(entries[0]?.filesModified, ['x.ts', 'y.ts']);
+    assert.deepStrictEqual(entries[0]?.languages, { typescript: 15 });
+  });
+
+  test('Should summarize periods across workspaces', async () => {
+    const history = new MetricsHistory(new MemoryMemento());
+    const now = new Date();
+    const yesterday = new Date(now);
+    yesterday.setDate(now.getDate() - 1);
+
+    await history.record(getDateKey(now), workspaceA, createDelta({ linesWritten: 10 }));
+    await history.record(getDateKey(now), workspaceB, createDelta({ linesWritten: 20 }));
+    await history.record(getDateKey(yesterday), workspaceA, createDelta({ linesWritten: 7 }));
+
+    assert.strictEqual(history.summarize('today', now).linesWritten, 30);
+    assert.strictEqual(history.summarize('yesterday', now).linesWritten, 7);
+
+    const week = history.summarize('last7Days', now);
+    assert.strictEqual(week.linesWritten, 37);
+    assert.strictEqual(week.daysActive, 2);
+  });
+
+  test('Should summarize the time spent on each branch of each repository', async () => {
+    const history = new MetricsHistory(new MemoryMemento());
+    const today = getDateKey(new Date());
+    const branch = (
+      repository: string,
+      name: string,
+      activeTimeMs: number,
+      filesModified: string[]
+    ) => ({
+      [getBranchKey(repository, name)]: {
+        branch: name,
+        repository,
+        activeTimeMs,
+        linesWritten: 1,
+        linesDeleted: 0,
+        filesModified
+      }
+    });
+
+    await history.record(
+      today,
+      workspaceA,
+      createDelta({
+        branches: {
+          ...branch('file:///a', 'feature/ABC-1', 1000, ['x.ts']),
+          ...branch('file:///a', 'main', 500, [])
+        }
+      })
+    );
+    await history.record(
+      today,
+      workspaceA,
+      createDelta({ branches: branch('file:///a', 'feature/ABC-1', 2000, ['x.ts', 'y.ts']) })
+    );
+    await history.record(
+      today,
+      workspaceB,
+      createDelta({ branches: branch('file:///b', 'main', 200, ['z.ts']) })
+    );
+
+    assert.deepStrictEqual(history.summarizeBranches('today'), [
+      {
+        branch: 'feature/ABC-1',
+        repository: 'a',
+        activeTimeMs: 3000,
+        linesWritten: 2,
+        linesDeleted: 0,
+        filesModified: 2
+      },
+      {
+        branch: 'main',
+        repository: 'a',
+        activeTimeMs: 500,
+        linesWritten: 1,
+        linesDeleted: 0,
+        filesModified: 0
+      },
+      {
+        branch: 'main',
+        repository: 'b',
+        activeTimeMs: 200,
+        linesWritten: 1,
+        linesDeleted: 0,
+        filesModified: 1
+      }
+    ]);
+  });
+
+  test('Should attribute branches of older records to their workspace', async () => {
+    const storage = new MemoryMemento();
+    const today = getDateKey(new Date());
+    const legacyBranch = { activeTimeMs: 700, linesWritten: 2, linesDeleted: 1, filesModified: [] };
+    await storage.update(getRecordKey(today, workspaceA.id), {
+      date: today,
+      workspace: workspaceA.id,
+      workspaceName: workspaceA.name,
+      ...createDelta(),
+      branches: { main: legacyBranch }
+    });
+
+    assert.deepStrictEqual(new MetricsHistory(storage).summarizeBranches('today'), [
+      {
+        branch: 'main',
+        repository: 'a',
+        activeTimeMs: 700,
+        linesWritten: 2,
+        linesDeleted: 1,
+        filesModified: 0
+      }
+    ]);
+  });
+
+  test('Should count pomodoros in older records', async () => {
+    const storage = new MemoryMemento();
+    const today = getDateKey(new Date());
+    const { pomodorosCompleted: _omitted, ...legacyDelta } = createDelta({ linesWritten: 3 });
+    await storage.update('kubito.metricsHistory', [
+      { date: today, workspace: workspaceA.id, workspaceName: workspaceA.name, ...legacyDelta }
+    ]);
+
+    const history = new MetricsHistory(storage);
+    await history.record(today, workspaceA, createDelta({ pomodorosCompleted: 1 }));
+
+    assert.strictEqual(history.getAll()[0]?.pomodorosCompleted, 1);
+    assert.strictEqual(history.summarize('today').pomodorosCompleted, 1);
+  });
+
+  test('Should store each day and workspace under its own key', async () => {
+    const storage = new MemoryMemento();
+    const today = getDateKey(new Date());
+
+    // Two windows sharing the global state, each with its own store
+    await new MetricsHistory(storage).record(today, workspaceA, createDelta({ linesWritten: 1 }));
+    await new MetricsHistory(storage).record(today, workspaceB, createDelta({ linesWritten: 2 }));
+
+    assert.deepStrictEqual([...storage.keys()].sort(), [
+      getRecordKey(today, workspaceA.id),
+      getRecordKey(today, workspaceB.id)
+    ]);
+    assert.strictEqual(new MetricsHistory(storage).summarize('today').linesWritten, 3);
+  });
+
+  test('Should move older history arrays to their own keys', async () => {
+    const storage = new MemoryMemento();
+    await storage.update('kubito.metricsHistory', [
+      { date: '2025-03-09', workspace: workspaceA.id, workspaceName: 'a', ...createDelta() }
+    ]);
+
+    const history = new MetricsHistory(storage);
+    assert.strictEqual(history.getAll().length, 1, 'Should read records not moved yet');
+
+    await history.record('2025-03-10', workspaceA, createDelta(), new Date(2025, 2, 10));
+    assert.deepStrictEqual([...storage.keys()].sort(), [
+      getRecordKey('2025-03-09', workspaceA.id),
+      getRecordKey('2025-03-10', workspaceA.id)
+    ]);
+  });
+
+  test('Should prune records older than the retention window', async () => {
+    const storage = new MemoryMemento();
+    const history = new MetricsHistory(storage);
+    const now = new Date(2025, 5, 30);
+
+    await history.record('2025-01-01', workspaceA, createDelta(), now);
+    await history.record('2025-06-29', workspaceA, createDelta(), now);
+
+    assert.deepStrictEqual(
+      history.getAll().map(entry => entry.date),
+      ['2025-06-29']
+    );
+  });
+});
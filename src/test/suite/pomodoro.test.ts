@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { PomodoroTimer, PomodoroPhase } from '../../core/pomodoro';
+
+/**
+ * Create a timer that records the callbacks it fires
+ */
+function createTimer(): {
+  timer: PomodoroTimer;
+  phases: PomodoroPhase[];
+  completed: number[];
+  stops: number[];
+} {
+  const phases: PomodoroPhase[] = [];
+  const completed: number[] = [];
+  const stops: number[] = [];
+  const timer = new PomodoroTimer({
+    onPhaseStart: phase => phases.push(phase),
+    onWorkCompleted: count => completed.push(count),
+    onStop: () => stops.push(Date.now())
+  });
+
+  return { timer, phases, completed, stops };
+}
+
+/**
+ * Test suite for the Pomodoro timer
+ *
+ * Validates the work/break cycle, pause and reset behavior using the
+ * default settings (4 work sessions before a long break).
+ */
+suite('Pomodoro Test Suite', () => {
+  test('Should start with a work phase', () => {
+    const { timer, phases } = createTimer();
+    timer.start();
+
+    assert.strictEqual(timer.getStatus(), 'running');
+    assert.deepStrictEqual(phases, ['work']);
+    assert.strictEqual(timer.isOnBreak(), false);
+    timer.dispose();
+  });
+
+  test('Should take a long break after the configured cycles', () => {
+    const { timer, phases, completed } = createTimer();
+    timer.start();
+    for (let i = 0; i < 7; i++) {
+      timer.skip();
+    }
+
+    assert.deepStrictEqual(phases, [
+      'work',
+      'shortBreak',
+      'work',
+      'shortBreak',
+      'work',
+      'shortBreak',
+      'work',
+      'longBreak'
+    ]);
+    assert.strictEqual(timer.isOnBreak(), true);
+    assert.deepStrictEqual(completed, [], 'Skipped work phases should not count as completed');
+    timer.dispose();
+  });
+
+  test('Should pause and resume the current phase', () => {
+    const { timer, phases } = createTimer();
+    timer.start();
+    timer.pause();
+    assert.strictEqual(timer.getStatus(), 'paused');
+
+    timer.start();
+    assert.strictEqual(timer.getStatus(), 'running');
+    assert.deepStrictEqual(phases, ['work'], 'Resuming should not start a new phase');
+    timer.dispose();
+  });
+
+  test('Should notify when reset', () => {
+    const { timer, stops } = createTimer();
+    timer.reset();
+    assert.strictEqual(stops.length, 0, 'Resetting an idle timer should not notify');
+
+    timer.start();
+    timer.reset();
+    assert.strictEqual(timer.getStatus(), 'idle');
+    assert.strictEqual(stops.length, 1);
+    timer.dispose();
+  });
+});
@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import {
+  formatDuration,
+  parseCustomReminders,
+  recordAcknowledgement
+} from '../../core/productivity';
+import { setLanguage } from '../../localization';
+
+/**
+ * Test suite for productivity helpers (streaks, custom reminders and durations)
+ */
+suite('Productivity Test Suite', () => {
+  test('Should start a streak on the first acknowledgement', () => {
+    const stats = recordAcknowledgement(undefined, new Date(2025, 2, 10, 9));
+
+    assert.deepStrictEqual(stats, {
+      acknowledged: 1,
+      currentStreak: 1,
+      bestStreak: 1,
+      lastAcknowledgedDate: '2025-03-10'
+    });
+  });
+
+  test('Should extend the streak on consecutive days only', () => {
+    let stats = recordAcknowledgement(undefined, new Date(2025, 2, 10, 9));
+    stats = recordAcknowledgement(stats, new Date(2025, 2, 10, 15));
+    assert.strictEqual(stats.currentStreak, 1, 'Same day should not extend the streak');
+    assert.strictEqual(stats.acknowledged, 2);
+
+    stats = recordAcknowledgement(stats, new Date(2025, 2, 11, 9));
+    assert.strictEqual(stats.currentStreak, 2);
+
+    stats = recordAcknowledgement(stats, new Date(2025, 2, 14, 9));
+    assert.strictEqual(stats.currentStreak, 1, 'A missed day should reset the streak');
+    assert.strictEqual(stats.bestStreak, 2);
+  });
+
+  test('Should parse custom reminders with defaults', () => {
+    const reminders = parseCustomReminders([
+      { message: 'Stand up!', interval: 50 },
+      { id: 'slack', message: 'Check Slack', emoji: '💬', interval: 1, enabled: false },
+      { emoji: '🙈' },
+      'not an object'
+    ]);
+
+    assert.deepStrictEqual(reminders, [
+      { id: 'Stand up!', message: 'Stand up!', emoji: '⏰', interval: 50, enabled: true },
+      { id: 'slack', message: 'Check Slack', emoji: '💬', interval: 5, enabled: false }
+    ]);
+  });
+
+  test('Should ignore invalid custom reminder settings', () => {
+    assert.deepStrictEqual(parseCustomReminders(undefined), []);
+    assert.deepStrictEqual(parseCustomReminders({ message: 'Not a list' }), []);
+  });
+
+  test('Should format durations in the current language', () => {
+    const duration = (2 * 60 + 5) * 60 * 1000;
+
+    setLanguage('en');
+    assert.strictEqual(formatDuration(duration), '2h 5m');
+    assert.strictEqual(formatDuration(45 * 60 * 1000), '45m');
+
+    setLanguage('de');
+    assert.strictEqual(formatDuration(duration), '2 Std. 5 Min.');
+
+    setLanguage('en');
+  });
+});
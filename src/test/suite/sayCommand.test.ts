@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { parseSayArguments } from '../../core/sayCommand';
+
+/**
+ * Test suite for the kubito.say command arguments
+ *
+ * Validates that keybinding and task arguments are checked
+ * and turned into messages for Kubito.
+ */
+suite('Say Command Test Suite', () => {
+  test('Should accept a plain string as text', () => {
+    assert.deepStrictEqual(parseSayArguments(' Tests passed! '), {
+      type: 'text',
+      content: 'Tests passed!'
+    });
+  });
+
+  test('Should keep valid options and clamp the duration', () => {
+    assert.deepStrictEqual(
+      parseSayArguments({ type: 'emoji', content: '🎉', durationMs: 120000, priority: 'high' }),
+      { type: 'emoji', content: '🎉', durationMs: 60000, priority: 'high' }
+    );
+    assert.deepStrictEqual(
+      parseSayArguments({ type: 'image', content: 'kubit-love', alt: 'Love', durationMs: 10 }),
+      { type: 'image', content: 'kubit-love', alt: 'Love', durationMs: 1000 }
+    );
+  });
+
+  test('Should reject missing content and invalid options', () => {
+    assert.strictEqual(parseSayArguments({}), undefined);
+    assert.strictEqual(parseSayArguments(null), undefined);
+    assert.strictEqual(parseSayArguments({ content: '  ' }), undefined);
+    assert.strictEqual(parseSayArguments({ type: 'video', content: 'Hi' }), undefined);
+    assert.strictEqual(parseSayArguments({ type: 'image', content: 'logo.png' }), undefined);
+    assert.strictEqual(parseSayArguments({ content: 'Hi', priority: 'urgent' }), undefined);
+    assert.strictEqual(parseSayArguments({ content: 'Hi', durationMs: '5s' }), undefined);
+  });
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { isQuietTime, isWorkingTime, parseSchedule, parseTime } from '../../core/schedule';
+
+/**
+ * Test suite for the working hours schedule
+ *
+ * Validates setting parsing and working/quiet hours checks,
+ * including ranges that wrap around midnight.
+ */
+suite('Schedule Test Suite', () => {
+  test('Should parse HH:MM times', () => {
+    assert.strictEqual(parseTime('09:30'), 9 * 60 + 30);
+    assert.strictEqual(parseTime('7:05'), 7 * 60 + 5);
+    assert.strictEqual(parseTime('24:00'), undefined);
+    assert.strictEqual(parseTime('noon'), undefined);
+  });
+
+  test('Should treat every time as working time when disabled', () => {
+    const schedule = parseSchedule(undefined);
+    const sundayNight = new Date(2025, 2, 9, 2, 0); // Sunday 02:00
+
+    assert.strictEqual(schedule.enabled, false);
+    assert.strictEqual(isWorkingTime(schedule, sundayNight), true);
+    assert.strictEqual(isQuietTime(schedule, sundayNight), false);
+  });
+
+  test('Should respect working days and hours', () => {
+    const schedule = parseSchedule({
+      enabled: true,
+      workingDays: ['mon', 'tue', 'wed', 'thu', 'fri'],
+      workingHours: { start: '09:00', end: '17:30' }
+    });
+
+    assert.strictEqual(isWorkingTime(schedule, new Date(2025, 2, 10, 10, 0)), true); // Monday
+    assert.strictEqual(isWorkingTime(schedule, new Date(2025, 2, 10, 17, 30)), false);
+    assert.strictEqual(isWorkingTime(schedule, new Date(2025, 2, 9, 10, 0)), false); // Sunday
+  });
+
+  test('Should count whole working days when working hours are turned off', () => {
+    const schedule = parseSchedule({ enabled: true, workingDays: ['mon'], workingHours: null });
+
+    assert.strictEqual(schedule.workingHours, null);
+    assert.strictEqual(isWorkingTime(schedule, new Date(2025, 2, 10, 23, 0)), true); // Monday
+    assert.strictEqual(isWorkingTime(schedule, new Date(2025, 2, 11, 10, 0)), false); // Tuesday
+  });
+
+  test('Should handle quiet hours wrapping around midnight', () => {
+    const schedule = parseSchedule({ enabled: true, quietHours: { start: '22:00', end: '07:00' } });
+
+    assert.strictEqual(isQuietTime(schedule, new Date(2025, 2, 10, 23, 0)), true);
+    assert.strictEqual(isQuietTime(schedule, new Date(2025, 2, 10, 6, 59)), true);
+    assert.strictEqual(isQuietTime(schedule, new Date(2025, 2, 10, 12, 0)), false);
+
+    const noQuietHours = parseSchedule({ enabled: true, quietHours: null });
+    assert.strictEqual(isQuietTime(noQuietHours, new Date(2025, 2, 10, 23, 0)), false);
+  });
+});
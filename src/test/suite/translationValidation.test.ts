@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { getAllTranslations, getRegionalLanguages } from '../../localization';
+import {
+  validateTranslations,
+  isTranslationReportClean,
+  extractWebviewMessageKeys
+} from '../../localization/validation';
+import { CONTEXTUAL_MESSAGES } from '../../contextual/context';
+
+/**
+ * Test suite for translation validation
+ *
+ * Validates the detection of missing, extra and placeholder-mismatched
+ * keys, and checks that the shipped translations are complete.
+ */
+suite('Translation Validation Test Suite', () => {
+  test('Should report missing, extra and placeholder-mismatched keys', () => {
+    const report = validateTranslations(
+      {
+        en: { messages: { hello: 'Hello', count: '{count} files' } },
+        es: { messages: { hello: 'Hola', count: '{total} archivos', bye: 'Adiós' } },
+        fr: { messages: { count: '{count} fichiers' } }
+      },
+      ['hello', 'unknown']
+    );
+
+    assert.deepStrictEqual(report.languages, [
+      {
+        language: 'es',
+        missing: [],
+        extra: ['messages.bye'],
+        placeholderMismatches: ['messages.count']
+      },
+      { language: 'fr', missing: ['messages.hello'], extra: [], placeholderMismatches: [] }
+    ]);
+    assert.deepStrictEqual(report.unknownMessageKeys, ['unknown']);
+    assert.strictEqual(isTranslationReportClean(report), false);
+  });
+
+  test('Should not report missing keys of partial languages', () => {
+    const report = validateTranslations(
+      {
+        en: { messages: { hello: 'Hello', count: '{count} files' } },
+        'en-gb': { messages: { count: '{total} files', colour: 'Colour' } }
+      },
+      [],
+      ['en-gb']
+    );
+
+    assert.deepStrictEqual(report.languages, [
+      {
+        language: 'en-gb',
+        missing: [],
+        extra: ['messages.colour'],
+        placeholderMismatches: ['messages.count']
+      }
+    ]);
+  });
+
+  test('Should compare the arguments of plural messages', () => {
+    const report = validateTranslations({
+      en: { streak: '{count, plural, one {# day} other {# days}} of {name}' },
+      ja: { streak: '{name}: {count}日' },
+      ru: { streak: '{total, plural, one {# день} other {# дней}} {name}' }
+    });
+
+    assert.deepStrictEqual(
+      report.languages.map(issues => issues.placeholderMismatches),
+      [[], ['streak']]
+    );
+  });
+
+  test('Should extract message keys from the webview script', () => {
+    const source = [
+      'const CONTEXTUAL_MESSAGES = {',
+      // eslint-disable-next-line quotes
+      "  [TimeContext.MORNING]: ['letsCode', 'coffee'],",
+      '};',
+      'function getMessageMap() {',
+      // eslint-disable-next-line quotes
+      "  const textMessages = ['sleeping'];",
+      '}',
+      // eslint-disable-next-line quotes
+      "const alt = getWebviewTranslation('kubitLogo');"
+    ].join('\n');
+
+    assert.deepStrictEqual(extractWebviewMessageKeys(source).sort(), [
+      'coffee',
+      'kubitLogo',
+      'letsCode',
+      'sleeping'
+    ]);
+  });
+
+  test('Shipped translations should be complete', async () => {
+    const usedKeys = Object.values(CONTEXTUAL_MESSAGES).flat();
+
+    // The compiled webview script is built before the tests run
+    const extension = vscode.extensions.getExtension('Kubit.vscode-kubito');
+    if (extension) {
+      const script = await vscode.workspace.fs.readFile(
+        vscode.Uri.joinPath(extension.extensionUri, 'media', 'kubito.js')
+      );
+      usedKeys.push(...extractWebviewMessageKeys(Buffer.from(script).toString('utf8')));
+    }
+
+    const report = validateTranslations(getAllTranslations(), usedKeys, getRegionalLanguages());
+    assert.ok(isTranslationReportClean(report), JSON.stringify(report, null, 2));
+  });
+});
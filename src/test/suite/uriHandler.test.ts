@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { parseKubitoUri, parseUriQuery } from '../../core/uriHandler';
+
+/**
+ * Create a Kubito URI with the given path and query
+ */
+function kubitoUri(path: string, query: string): vscode.Uri {
+  return vscode.Uri.from({ scheme: 'vscode', authority: 'Kubit.vscode-kubito', path, query });
+}
+
+/**
+ * Test suite for the URI handler
+ *
+ * Validates which links from outside VS Code are accepted
+ * and whether they need the user's confirmation.
+ */
+suite('URI Handler Test Suite', () => {
+  test('Should accept allowlisted reactions', () => {
+    assert.deepStrictEqual(parseKubitoUri(kubitoUri('/react', 'event=buildFailed')), {
+      kind: 'react',
+      message: { type: 'emoji', content: '💥' }
+    });
+    assert.strictEqual(parseKubitoUri(kubitoUri('/react', 'event=launchMissiles')), undefined);
+    assert.strictEqual(parseKubitoUri(kubitoUri('/react', 'event=toString')), undefined);
+  });
+
+  test('Should read messages to confirm from say links', () => {
+    assert.deepStrictEqual(parseKubitoUri(kubitoUri('/say', 'text=Build done&type=emoji')), {
+      kind: 'say',
+      message: { type: 'emoji', content: 'Build done' }
+    });
+    assert.strictEqual(parseKubitoUri(kubitoUri('/say', 'text=')), undefined);
+    assert.strictEqual(parseKubitoUri(kubitoUri('/say', 'text=Hi&type=image')), undefined);
+    assert.strictEqual(parseKubitoUri(kubitoUri('/open', 'text=Hi')), undefined);
+  });
+
+  test('Should keep special characters of encoded texts', () => {
+    const text = 'Tom & Jerry: 1+1=2, 100% done';
+    const uri = vscode.Uri.parse(
+      `vscode://Kubit.vscode-kubito/say?text=${encodeURIComponent(text)}&type=text`
+    );
+
+    assert.deepStrictEqual(parseKubitoUri(uri), {
+      kind: 'say',
+      message: { type: 'text', content: text }
+    });
+  });
+
+  test('Should read decoded queries without decoding them again', () => {
+    const params = parseUriQuery('text=a & b: c=d+e 50%&type=emoji&unknown=1 & 2');
+
+    assert.strictEqual(params.get('text'), 'a & b: c=d+e 50%');
+    assert.strictEqual(params.get('type'), 'emoji', 'Unknown parameters should be ignored');
+    assert.strictEqual(parseUriQuery('event=pushed').get('event'), 'pushed');
+    assert.strictEqual(parseUriQuery('other=1&text=hi').get('text'), 'hi');
+  });
+});
@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { WebviewChannel } from '../../core/webviewChannel';
+import { HostToWebviewMessage, PROTOCOL_VERSION } from '../../webview/protocol';
+
+/**
+ * Webview recording the commands posted to it
+ */
+class RecordingWebview {
+  public readonly posted: HostToWebviewMessage[] = [];
+
+  postMessage(message: HostToWebviewMessage): Promise<boolean> {
+    this.posted.push(message);
+    return Promise.resolve(true);
+  }
+}
+
+/**
+ * Test suite for the webview channel
+ *
+ * Validates the handshake, and that a reloaded view gets the current state back.
+ */
+suite('Webview Channel Test Suite', () => {
+  test('Should wait for the handshake before sending commands', () => {
+    const webview = new RecordingWebview();
+    const channel = new WebviewChannel(() => []);
+    channel.attach(webview);
+
+    channel.post({ command: 'showMessage', message: { type: 'text', content: 'Hi!' } });
+    assert.strictEqual(webview.posted.length, 0);
+
+    channel.handleReady(PROTOCOL_VERSION);
+    assert.deepStrictEqual(
+      webview.posted.map(message => message.command),
+      ['readyAck', 'showMessage']
+    );
+  });
+
+  test('Should restore the current state when the view reloads', () => {
+    const webview = new RecordingWebview();
+    let resting = false;
+    const channel = new WebviewChannel(() => [{ command: 'setResting', resting }]);
+    channel.attach(webview);
+    channel.handleReady(PROTOCOL_VERSION);
+
+    // Hidden: the webview is destroyed and reloads its HTML when shown again
+    channel.reset();
+    resting = true;
+    channel.post({ command: 'setResting', resting });
+    channel.post({ command: 'showMessage', message: { type: 'text', content: 'Old' } });
+    channel.post({ command: 'showMessage', message: { type: 'emoji', content: '🎉' } });
+    webview.posted.length = 0;
+
+    channel.handleReady(PROTOCOL_VERSION);
+    assert.deepStrictEqual(webview.posted, [
+      { command: 'readyAck', version: PROTOCOL_VERSION, compatible: true },
+      { command: 'setResting', resting: true },
+      { command: 'showMessage', message: { type: 'emoji', content: '🎉' } }
+    ]);
+  });
+
+  test('Should drop commands for a disposed view', () => {
+    const webview = new RecordingWebview();
+    const channel = new WebviewChannel(() => []);
+    channel.attach(webview);
+    channel.handleReady(PROTOCOL_VERSION);
+    channel.detach();
+
+    channel.post({ command: 'setFocusMode', active: true });
+    channel.handleReady(PROTOCOL_VERSION);
+    assert.strictEqual(webview.posted.length, 1);
+  });
+});
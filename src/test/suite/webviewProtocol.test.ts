@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { isWebviewToHostMessage } from '../../webview/protocol';
+
+/**
+ * Test suite for the extension and webview message protocol
+ *
+ * Validates that messages received from the webview are checked
+ * field by field before the extension acts on them.
+ */
+suite('Webview Protocol Test Suite', () => {
+  test('Should accept the handshake and interaction events', () => {
+    const message = { type: 'text', content: 'Zzz...' };
+
+    assert.ok(isWebviewToHostMessage({ command: 'ready', version: 1 }));
+    assert.ok(isWebviewToHostMessage({ command: 'clicked' }));
+    assert.ok(isWebviewToHostMessage({ command: 'thrown', velocityX: 4, velocityY: -2 }));
+    assert.ok(isWebviewToHostMessage({ command: 'messageShown', message }));
+    assert.ok(isWebviewToHostMessage({ command: 'messageDismissed', message, reason: 'timeout' }));
+    assert.ok(isWebviewToHostMessage({ command: 'messageAction', id: 'stretch', action: 'done' }));
+  });
+
+  test('Should reject unknown commands and malformed fields', () => {
+    assert.ok(!isWebviewToHostMessage(undefined));
+    assert.ok(!isWebviewToHostMessage('ready'));
+    assert.ok(!isWebviewToHostMessage({ command: 'explode' }));
+    assert.ok(!isWebviewToHostMessage({ command: 'ready', version: '1' }));
+    assert.ok(!isWebviewToHostMessage({ command: 'thrown', velocityX: 4 }));
+    assert.ok(!isWebviewToHostMessage({ command: 'messageShown', message: { type: 'video' } }));
+    assert.ok(
+      !isWebviewToHostMessage({
+        command: 'messageDismissed',
+        message: { type: 'emoji', content: '🎉' },
+        reason: 'bored'
+      })
+    );
+    assert.ok(!isWebviewToHostMessage({ command: 'messageAction', action: 'done' }));
+  });
+});
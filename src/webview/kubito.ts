@@ -4,6 +4,27 @@
  * This module provides an interactive Kubito companion that lives in the VS Code sidebar.
  * Kubito greets you, walks around, jumps, pauses and shows random messages to keep users engaged.
  *
+/**
+ * Message protocol shared with the extension (see protocol.ts)
+ * Only referenced as types, so this file stays a classic script without imports
+ */
+type HostToWebviewMessage = import('./protocol').HostToWebviewMessage;
+type WebviewToHostMessage = import('./protocol').WebviewToHostMessage;
+type MessageDismissReason = import('./protocol').MessageDismissReason;
+type IProtocolMessage = import('./protocol').IMessage;
+type ICustomMessagePack = import('./protocol').IWebviewCustomMessagePack;
+
+/**
+ * Protocol version this script is built with (fails to compile when protocol.ts changes it)
+ */
+const PROTOCOL_VERSION: typeof import('./protocol').PROTOCOL_VERSION = 1;
+
+/**
+ * VS Code webview API, used to send messages back to the extension
+ */
+declare function acquireVsCodeApi(): { postMessage(message: WebviewToHostMessage): void };
+const vscodeApi = acquireVsCodeApi();
+
 /**
  * Temporal context for contextual messages
  */
@@ -96,6 +117,26 @@ function shouldEnableChristmasMode(): boolean {
   return isDecember;
 }
 
+/**
+ * Check if the current time is within the user's quiet hours
+ * The schedule is resolved by the extension (times in minutes since midnight)
+ */
+function isQuietHours(): boolean {
+  const config = (window as any).kubitoConfig || {};
+  const schedule = config.schedule;
+
+  if (!schedule || !schedule.enabled || !schedule.quietHours) {
+    return false;
+  }
+
+  const now = new Date();
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const { start, end } = schedule.quietHours;
+
+  // Ranges may wrap around midnight (e.g. 22:00 - 07:00)
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
 /**
  * Create snowflakes for Christmas decoration
  */
@@ -204,12 +245,23 @@ function launchChristmasStar(): void {
   }, 3000);
 }
 
+/**
+ * Whether the shooting stars loop is running (it stops once Christmas mode is off)
+ */
+let areChristmasStarsRunning = false;
+
 /**
  * Start Christmas shooting stars with random intervals
  */
 function startChristmasStars(): void {
+  if (areChristmasStarsRunning) {
+    return;
+  }
+  areChristmasStarsRunning = true;
+
   const scheduleNextStar = (): void => {
     if (!shouldEnableChristmasMode()) {
+      areChristmasStarsRunning = false;
       return;
     }
 
@@ -238,7 +290,7 @@ function initializeChristmasMode(): void {
   }
 
   const container = document.getElementById('container');
-  if (!container) {
+  if (!container || container.classList.contains('christmas-mode')) {
     return;
   }
 
@@ -257,6 +309,21 @@ function initializeChristmasMode(): void {
   startChristmasStars();
 }
 
+/**
+ * Remove Christmas decorations; shooting stars stop on their own
+ */
+function removeChristmasMode(): void {
+  const container = document.getElementById('container');
+  if (!container) {
+    return;
+  }
+
+  container.classList.remove('christmas-mode');
+  container
+    .querySelectorAll('.snowflakes, .christmas-lights, .christmas-star')
+    .forEach(element => element.remove());
+}
+
 /**
  * Gets current time contexts based on system time
  */
@@ -343,13 +410,19 @@ function getWebviewTranslation(key: string): string {
   return translations[key] || key;
 }
 
+/**
+ * Language and text direction of the speech bubbles, injected by extension backend
+ */
+function getWebviewLocale(): { language: string; direction: 'ltr' | 'rtl' } {
+  return (window as any).kubitoLocale || { language: 'en', direction: 'ltr' };
+}
+
 /**
  * Message type definitions for Kubito's communication system
  */
-interface IMessage {
-  readonly type: 'emoji' | 'text' | 'image';
-  readonly content: string;
-  readonly alt?: string;
+interface IMessage extends IProtocolMessage {
+  readonly custom?: boolean; // Defined by the user or workspace (image content is a URI)
+  readonly contexts?: readonly string[]; // Time contexts a custom message is limited to
 }
 
 /**
@@ -448,6 +521,7 @@ const MESSAGE_CONFIG = {
   DELAY_MIN: 3000, // Minimum delay between messages (3 seconds)
   DELAY_MAX: 7000, // Maximum delay between messages (7 seconds)
   DURATION: 3000, // How long each message stays visible (3 seconds)
+  ACTION_DURATION: 15000, // How long messages with buttons stay visible (15 seconds)
   WIDTH_THRESHOLD: 0.8, // Container width ratio for line wrapping
   WIDTH_MAX: 1.0, // Maximum width ratio before truncation
   EMOJI_SIZE: 16, // Emoji display size in pixels
@@ -456,9 +530,62 @@ const MESSAGE_CONFIG = {
 
 /**
  * Gets localized messages that Kubito can randomly display
- * Mix of emojis, text, and branded images for variety and engagement
+ * Built-in messages merged with custom ones, unless custom messages replace them
  */
 function getLocalizedMessages(): readonly IMessage[] {
+  const pack: ICustomMessagePack = (window as any).kubitoCustomMessages || {
+    messages: [],
+    replaceBuiltIn: false
+  };
+  const customMessages = getCustomMessages(pack);
+
+  if (pack.replaceBuiltIn && pack.messages.length > 0) {
+    return customMessages;
+  }
+  return [...getBuiltInMessages(), ...customMessages];
+}
+
+/**
+ * Gets the custom messages that apply to the current language and time
+ * Each message is repeated according to its weight
+ */
+function getCustomMessages(pack: ICustomMessagePack): IMessage[] {
+  const language = getWebviewLocale().language;
+  const activeContexts: string[] = getCurrentTimeContexts();
+  const messages: IMessage[] = [];
+
+  pack.messages.forEach(entry => {
+    const matchesLanguage =
+      entry.languages.length === 0 ||
+      entry.languages.some(code => language === code || language.startsWith(`${code}-`));
+    const matchesContext =
+      entry.contexts.length === 0 ||
+      entry.contexts.some(context => activeContexts.includes(context));
+
+    if (!matchesLanguage || !matchesContext) {
+      return;
+    }
+
+    const message: IMessage = {
+      type: entry.type,
+      content: entry.content,
+      alt: entry.alt,
+      custom: true,
+      contexts: entry.contexts
+    };
+    for (let i = 0; i < entry.weight; i++) {
+      messages.push(message);
+    }
+  });
+
+  return messages;
+}
+
+/**
+ * Gets the built-in localized messages
+ * Mix of emojis, text, and branded images for variety and engagement
+ */
+function getBuiltInMessages(): readonly IMessage[] {
   return [
     // Expressive emojis (universal)
     { type: 'emoji', content: '🤓' },
@@ -716,11 +843,18 @@ function getContextualMessages(enableContextual: boolean = true): readonly IMess
   const nonContextualMessages: IMessage[] = [];
 
   // Separate emoji and image messages (always available)
-  const universalMessages = allMessages.filter(msg => msg.type === 'emoji' || msg.type === 'image');
+  const universalMessages = allMessages.filter(
+    msg => !msg.custom && (msg.type === 'emoji' || msg.type === 'image')
+  );
 
-  // Get all text messages and separate contextual from non-contextual
+  // Custom messages are already limited to their contexts: with contexts they are contextual
   allMessages
-    .filter(msg => msg.type === 'text')
+    .filter(msg => msg.custom)
+    .forEach(msg => (msg.contexts?.length ? contextualMessages : universalMessages).push(msg));
+
+  // Get all built-in text messages and separate contextual from non-contextual
+  allMessages
+    .filter(msg => msg.type === 'text' && !msg.custom)
     .forEach(msg => {
       const foundKey = Array.from(messageMap.entries()).find(
         ([_, value]) => value.content === msg.content
@@ -766,6 +900,8 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
   public isJumping = false; // Jump animation active
   public isShowingMessage = false; // Message display active
   public messageInterval: number | null = null; // Message timer ID
+  public messageHideTimeout: number | null = null; // Timer hiding the current message
+  public currentMessage: IMessage | null = null; // Message in the visible bubble
   public hasAdjustedDirectionForMessage = false; // Direction change guard
   public jumpStartTime: number | null = null; // Jump timing tracker
   public jumpCompleted = false; // Jump completion guard
@@ -799,6 +935,12 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
   public throwVelocityY: number = 0; // Vertical throw velocity (upward is positive)
   public bounceCount: number = 0; // Number of consecutive bounces for progressive damping
 
+  // Pomodoro break state
+  public isResting: boolean = Boolean((window as any).kubitoResting); // Stay idle during breaks
+
+  // Focus mode state
+  public isFocusMode: boolean = Boolean((window as any).kubitoFocusMode); // No random messages
+
   public readonly kubito: HTMLImageElement;
   public readonly container: HTMLElement;
 
@@ -1042,7 +1184,7 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
   private startDragging(): void {
     // Hide any active message when starting to drag
     if (this.isShowingMessage) {
-      this.hideMessage();
+      this.hideMessage('dragged');
     }
 
     this.isDragging = true;
@@ -1059,6 +1201,8 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
 
     // Update cursor - only set body cursor, let CSS handle kubito cursor
     document.body.style.cursor = 'grabbing';
+
+    vscodeApi.postMessage({ command: 'dragged' });
   }
 
   /**
@@ -1066,6 +1210,8 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
    * Triggers jump if conditions are met
    */
   private handleClick(): void {
+    vscodeApi.postMessage({ command: 'clicked' });
+
     if (this.kubitoState === KubitoState.PAUSED || this.kubitoState === KubitoState.WANDERING) {
       this.performJump();
     }
@@ -1119,6 +1265,12 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
 
     // Reset cursor - remove body cursor, CSS will handle kubito cursor
     document.body.style.cursor = '';
+
+    vscodeApi.postMessage({
+      command: 'thrown',
+      velocityX: this.throwVelocityX,
+      velocityY: this.throwVelocityY
+    });
   }
 
   /**
@@ -1251,9 +1403,11 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
         const isInLandingCooldown = timeSinceLastLanding < KUBITO_CONFIG.POST_JUMP_COOLDOWN;
 
         // Show messages when not jumping, not in jump cooldown, not in landing cooldown
-        // Messages only appear during PAUSED state
+        // Messages only appear during PAUSED state, never in focus mode or quiet hours
         // Safe zone validation is done in showMessage() method
         if (
+          !this.isFocusMode &&
+          !isQuietHours() &&
           !this.isJumping &&
           !isInJumpCooldown &&
           !isInLandingCooldown &&
@@ -1278,7 +1432,7 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
 
     // Cancel any active message
     if (this.isShowingMessage) {
-      this.hideMessage();
+      this.hideMessage('jumped');
     }
 
     // Start jump - simple and clean
@@ -1374,7 +1528,9 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
    */
   public showRandomMessage(): void {
     const message = this.getRandomMessage();
-    this.showMessage(message);
+    if (message) {
+      this.showMessage(message);
+    }
   }
 
   /**
@@ -1393,6 +1549,11 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
       return;
     }
 
+    // Low priority messages never interrupt another one
+    if (message.priority === 'low' && this.isShowingMessage) {
+      return;
+    }
+
     // Cancel any active random message timer
     if (this.messageInterval) {
       clearTimeout(this.messageInterval);
@@ -1401,7 +1562,7 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
 
     // Hide any currently displayed message
     if (this.isShowingMessage) {
-      this.hideMessage();
+      this.hideMessage('replaced');
     }
 
     // Show the event message (no longer forced during jumps)
@@ -1449,6 +1610,7 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
     }
 
     this.isShowingMessage = true;
+    this.currentMessage = message;
     const messageElement = this.createMessageElement(message);
 
     this.container.appendChild(messageElement);
@@ -1462,20 +1624,35 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
       messageElement.style.transform = 'translateY(0px)';
     });
 
-    // Hide message after duration
-    setTimeout(() => {
-      this.hideMessage();
-    }, MESSAGE_CONFIG.DURATION);
+    vscodeApi.postMessage({ command: 'messageShown', message });
+
+    // Hide message after duration (its own, or longer when the user can answer it)
+    if (this.messageHideTimeout !== null) {
+      clearTimeout(this.messageHideTimeout);
+    }
+    this.messageHideTimeout = window.setTimeout(
+      () => {
+        this.messageHideTimeout = null;
+        this.hideMessage('timeout');
+      },
+      message.durationMs ??
+        (message.actions?.length ? MESSAGE_CONFIG.ACTION_DURATION : MESSAGE_CONFIG.DURATION)
+    );
   }
 
   /**
    * Get a contextual message based on current time, with fallback to random
    */
-  private getRandomMessage(): IMessage {
+  private getRandomMessage(): IMessage | undefined {
     // Check if contextual messaging is enabled (can be configured via settings)
     const enableContextual = this.getContextualSetting();
 
+    // Custom messages replacing the built-in ones may not apply right now
     const messages = getContextualMessages(enableContextual);
+    if (messages.length === 0) {
+      return undefined;
+    }
+
     const randomIndex = Math.floor(Math.random() * messages.length);
     return messages[randomIndex];
   }
@@ -1497,6 +1674,11 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
     messageElement.className = 'speech-bubble';
     messageElement.setAttribute('data-type', message.type);
 
+    // Language and direction before measuring: they select fonts and bidi layout
+    const locale = getWebviewLocale();
+    messageElement.lang = locale.language;
+    messageElement.dir = locale.direction;
+
     // Set initial styles for proper positioning
     messageElement.style.position = 'absolute';
     messageElement.style.opacity = '0';
@@ -1505,7 +1687,7 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
     // Create content
     if (message.type === 'image') {
       const img = document.createElement('img');
-      img.src = this.getImageUri(message.content);
+      img.src = message.custom ? message.content : this.getImageUri(message.content);
       img.alt = message.alt ?? message.content;
       img.style.width = MESSAGE_CONFIG.IMAGE_SIZE + 'px';
       img.style.height = MESSAGE_CONFIG.IMAGE_SIZE + 'px';
@@ -1523,9 +1705,38 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
     // Apply smart sizing based on container width
     this.applySmartSizing(messageElement, message);
 
+    if (message.actions?.length) {
+      messageElement.appendChild(this.createActionsElement(message));
+    }
+
     return messageElement;
   }
 
+  /**
+   * Create the buttons of a message that accepts actions
+   * The chosen action is sent back to the extension and the bubble is closed
+   */
+  private createActionsElement(message: IMessage): HTMLElement {
+    const actionsElement = document.createElement('div');
+    actionsElement.className = 'bubble-actions';
+
+    message.actions?.forEach(action => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = action.label;
+      button.addEventListener('click', event => {
+        event.stopPropagation();
+        if (message.id) {
+          vscodeApi.postMessage({ command: 'messageAction', id: message.id, action: action.id });
+        }
+        this.hideMessage('action');
+      });
+      actionsElement.appendChild(button);
+    });
+
+    return actionsElement;
+  }
+
   /**
    * Apply smart sizing rules to message elements
    */
@@ -1548,15 +1759,15 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
     const widthThreshold = containerWidth * MESSAGE_CONFIG.WIDTH_THRESHOLD;
     const maxWidth = containerWidth * MESSAGE_CONFIG.WIDTH_MAX;
 
-    if (naturalWidth > maxWidth) {
-      // Case 3: Too wide even for multi-line → truncate
+    if (naturalWidth > maxWidth && !message.actions?.length) {
+      // Case 3: Too wide even for multi-line → truncate (never hide buttons)
       messageElement.style.maxWidth = maxWidth + 'px';
       messageElement.style.whiteSpace = 'nowrap';
       messageElement.style.overflow = 'hidden';
       messageElement.style.textOverflow = 'ellipsis';
       messageElement.title = message.content; // Show full text on hover
-    } else if (naturalWidth > widthThreshold) {
-      // Case 2: Wide message → multi-line
+    } else if (naturalWidth > widthThreshold || message.actions?.length) {
+      // Case 2: Wide message or message with buttons → multi-line
       messageElement.style.maxWidth = widthThreshold + 'px';
       messageElement.style.whiteSpace = 'normal';
       messageElement.style.textAlign = 'center';
@@ -1574,7 +1785,7 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
     const kubitoLeft = this.position;
     const kubitoTop = this.container.clientHeight - KUBITO_CONFIG.KUBITO_HEIGHT;
 
-    // Center the message above Kubito
+    // Center the message above Kubito (centered bubbles need no mirroring for RTL text)
     const messageWidth = messageElement.offsetWidth || 80; // fallback width
     const centeredLeft = kubitoLeft + KUBITO_CONFIG.KUBITO_WIDTH / 2 - messageWidth / 2;
 
@@ -1588,12 +1799,17 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
 
   /**
    * Hide and remove the current message
+   * @param reason - Why the message is closed, reported to the extension
    */
-  private hideMessage(): void {
+  private hideMessage(reason: MessageDismissReason): void {
     const existingMessage = this.container.querySelector('.speech-bubble');
     if (existingMessage) {
       existingMessage.remove();
     }
+    if (this.currentMessage) {
+      vscodeApi.postMessage({ command: 'messageDismissed', message: this.currentMessage, reason });
+      this.currentMessage = null;
+    }
     this.isShowingMessage = false;
     this.hasAdjustedDirectionForMessage = false; // Reset flag when message is hidden
   }
@@ -1721,9 +1937,14 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
     this.isTransitioning = true;
 
     if (this.kubitoState === KubitoState.WAVING) {
-      // After waving, transition to wandering state
-      this.kubitoState = KubitoState.WANDERING;
-      this.setKubitoImage('walking');
+      // After waving, transition to wandering state (or rest during breaks)
+      if (this.isResting) {
+        this.kubitoState = KubitoState.PAUSED;
+        this.setKubitoImage('idle');
+      } else {
+        this.kubitoState = KubitoState.WANDERING;
+        this.setKubitoImage('walking');
+      }
     } else if (this.kubitoState === KubitoState.WANDERING) {
       // Switch to paused state
       this.kubitoState = KubitoState.PAUSED;
@@ -1736,7 +1957,12 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
 
       const jumpRoll = Math.random();
 
-      if (jumpRoll < KUBITO_CONFIG.JUMP_CHANCE && !this.isShowingMessage && !isInJumpCooldown) {
+      if (
+        jumpRoll < KUBITO_CONFIG.JUMP_CHANCE &&
+        !this.isShowingMessage &&
+        !isInJumpCooldown &&
+        !this.isResting
+      ) {
         // Small delay to let the idle state settle before jumping
         setTimeout(() => {
           this.triggerRandomJump();
@@ -1744,7 +1970,10 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
       }
     } else if (this.kubitoState === KubitoState.PAUSED) {
       // Switch to wandering state (only if not showing a message)
-      if (!this.isShowingMessage) {
+      if (this.isResting && !this.isShowingMessage) {
+        // Keep resting during Pomodoro breaks
+        this.setKubitoImage('idle');
+      } else if (!this.isShowingMessage) {
         this.kubitoState = KubitoState.WANDERING;
         this.setKubitoImage('walking');
 
@@ -1912,13 +2141,44 @@ class KubitoController implements IKubitoAnimator, IAnimationState {
     this.jumpCompleted = false;
   }
 
+  /**
+   * Rest (stay idle) or resume wandering, used for Pomodoro breaks
+   * @param resting - Whether Kubito should rest
+   */
+  public setResting(resting: boolean): void {
+    this.isResting = resting;
+
+    // Stop walking right away; wandering resumes on the next state transition
+    if (resting && this.kubitoState === KubitoState.WANDERING) {
+      this.kubitoState = KubitoState.PAUSED;
+      this.setKubitoImage('idle');
+      this.initializeWanderingState();
+    }
+  }
+
   /**
    * Refresh configuration settings
    * Called when settings change to apply new configuration immediately
    */
   public refreshConfig(): void {
-    // Configuration will be automatically picked up on the next message selection
-    // through getContextualSetting() method, no additional action needed
+    // Other settings are picked up on the next message selection
+    // through getContextualSetting() method
+    if (shouldEnableChristmasMode()) {
+      initializeChristmasMode();
+    } else {
+      removeChristmasMode();
+    }
+  }
+
+  /**
+   * Show the current state again with new sprite URIs (e.g. Christmas variants)
+   */
+  public refreshSprites(): void {
+    const state = this.currentImageState as 'walking' | 'jumping' | 'idle' | 'waving' | 'footing';
+    this.currentImageState = '';
+    if (state) {
+      this.setKubitoImage(state);
+    }
   }
 }
 
@@ -1935,6 +2195,9 @@ function initializeKubito(): void {
   } catch (error) {
     console.error('Failed to initialize Kubito:', error);
   }
+
+  // Handshake: the extension queues its messages until Kubito is ready for them
+  vscodeApi.postMessage({ command: 'ready', version: PROTOCOL_VERSION });
 }
 
 // Auto-initialize when DOM is ready
@@ -1953,9 +2216,18 @@ window.addEventListener('beforeunload', () => {
 
 // Listen for messages from the extension host
 window.addEventListener('message', event => {
-  const message = event.data;
+  const message = event.data as HostToWebviewMessage;
 
   switch (message.command) {
+    case 'readyAck':
+      // Unknown commands are ignored, so an outdated script keeps running with what it knows
+      if (!message.compatible) {
+        console.warn(
+          `Kubito webview protocol version ${PROTOCOL_VERSION} does not match extension version ${message.version}`
+        );
+      }
+      break;
+
     case 'updateConfig':
       // Update configuration without full page refresh
       if (message.config && (window as any).kubitoConfig) {
@@ -1974,5 +2246,53 @@ window.addEventListener('message', event => {
         kubitoController.showEventMessage(message.message);
       }
       break;
+
+    case 'setFocusMode':
+      // Silence random messages while focus mode is on
+      if (kubitoController) {
+        kubitoController.isFocusMode = Boolean(message.active);
+      }
+      break;
+
+    case 'setResting':
+      // Rest during Pomodoro breaks, wander again when work resumes
+      if (kubitoController) {
+        kubitoController.setResting(Boolean(message.resting));
+      }
+      break;
+
+    case 'updateTranslations':
+      // Swap translations in place; the message pool is rebuilt on the next message
+      if (message.translations) {
+        (window as any).kubitoTranslations = message.translations;
+      }
+      if (message.locale) {
+        (window as any).kubitoLocale = message.locale;
+        document.documentElement.lang = message.locale.language;
+        document.documentElement.dir = message.locale.direction;
+      }
+      break;
+
+    case 'updateSprites':
+      // New sprites (e.g. Christmas variants) without restarting Kubito
+      if (message.sprites) {
+        (window as any).kubitoWalkingUri = message.sprites.walking;
+        (window as any).kubitoJumpingUri = message.sprites.jumping;
+        (window as any).kubitoIdleUri = message.sprites.idle;
+        (window as any).kubitoWavingUri = message.sprites.waving;
+        (window as any).kubitoFootingUri = message.sprites.footing;
+
+        if (kubitoController) {
+          kubitoController.refreshSprites();
+        }
+      }
+      break;
+
+    case 'setCustomMessages':
+      // Custom messages are read whenever a random message is picked
+      if (message.customMessages) {
+        (window as any).kubitoCustomMessages = message.customMessages;
+      }
+      break;
   }
 });
@@ -0,0 +1,178 @@
+/**
+ * Message protocol between the extension host and the Kubito webview
+ *
+ * Shared by `src/extension.ts` and `src/webview/kubito.ts`. The webview is a classic
+ * script, so it only uses these types through `import('./protocol')` type references
+ * and never loads this module at runtime.
+ *
+ * Handshake:
+ * 1. The webview posts `ready` with the protocol version it was built with
+ * 2. The host answers `readyAck` with its own version, then sends its whole state
+ *    (the view reloads on every show, so this happens again each time)
+ *
+ * Unknown commands are ignored on both sides, so a version mismatch is reported
+ * but does not stop Kubito.
+ */
+
+/**
+ * Current protocol version, increased on incompatible message changes
+ */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Message shown in a speech bubble
+ */
+export interface IMessage {
+  readonly type: 'emoji' | 'text' | 'image';
+  readonly content: string;
+  readonly alt?: string;
+  readonly id?: string; // Sent back with the chosen action
+  readonly actions?: readonly IMessageAction[]; // Buttons shown in the speech bubble
+  readonly durationMs?: number; // How long the bubble stays, instead of the default
+  readonly priority?: MessagePriority; // Defaults to normal
+}
+
+/**
+ * How a message competes with the one already shown
+ * - `low`: skipped while another message is shown
+ * - `normal`: replaces the current message
+ * - `high`: replaces the current message and is shown even in focus mode
+ */
+export type MessagePriority = 'low' | 'normal' | 'high';
+
+/**
+ * Button shown in a speech bubble
+ */
+export interface IMessageAction {
+  readonly id: string;
+  readonly label: string;
+}
+
+/**
+ * Custom message, with image paths already turned into webview URIs
+ */
+export interface IWebviewCustomMessage {
+  readonly type: 'emoji' | 'text' | 'image';
+  readonly content: string;
+  readonly alt: string;
+  readonly weight: number;
+  readonly contexts: readonly string[];
+  readonly languages: readonly string[];
+}
+
+/**
+ * Custom messages and whether they replace the built-in ones
+ */
+export interface IWebviewCustomMessagePack {
+  readonly messages: readonly IWebviewCustomMessage[];
+  readonly replaceBuiltIn: boolean;
+}
+
+/**
+ * Animation sprites of Kubito
+ */
+export type KubitoSprite = 'walking' | 'jumping' | 'idle' | 'waving' | 'footing';
+
+/**
+ * Why a speech bubble was closed
+ */
+export type MessageDismissReason = 'timeout' | 'action' | 'replaced' | 'jumped' | 'dragged';
+
+/**
+ * Commands sent by the extension host to the webview
+ */
+export type HostToWebviewMessage =
+  | { readonly command: 'readyAck'; readonly version: number; readonly compatible: boolean }
+  | { readonly command: 'updateConfig'; readonly config: Readonly<Record<string, unknown>> }
+  | { readonly command: 'showMessage'; readonly message: IMessage }
+  | { readonly command: 'setFocusMode'; readonly active: boolean }
+  | { readonly command: 'setResting'; readonly resting: boolean }
+  | {
+      readonly command: 'updateTranslations';
+      readonly translations: Readonly<Record<string, string>>;
+      readonly locale: { readonly language: string; readonly direction: 'ltr' | 'rtl' };
+    }
+  | {
+      readonly command: 'updateSprites';
+      readonly sprites: Readonly<Record<KubitoSprite, string | undefined>>;
+    }
+  | { readonly command: 'setCustomMessages'; readonly customMessages: IWebviewCustomMessagePack };
+
+/**
+ * User interactions with Kubito reported by the webview
+ */
+export type WebviewInteraction =
+  | { readonly command: 'clicked' }
+  | { readonly command: 'dragged' }
+  | { readonly command: 'thrown'; readonly velocityX: number; readonly velocityY: number }
+  | { readonly command: 'messageShown'; readonly message: IMessage }
+  | {
+      readonly command: 'messageDismissed';
+      readonly message: IMessage;
+      readonly reason: MessageDismissReason;
+    };
+
+/**
+ * Messages sent by the webview to the extension host
+ */
+export type WebviewToHostMessage =
+  | { readonly command: 'ready'; readonly version: number }
+  | { readonly command: 'messageAction'; readonly id: string; readonly action: string }
+  | WebviewInteraction;
+
+/**
+ * Reasons a speech bubble can be closed for, used to check messages received at runtime
+ */
+const DISMISS_REASONS: readonly MessageDismissReason[] = [
+  'timeout',
+  'action',
+  'replaced',
+  'jumped',
+  'dragged'
+];
+
+/**
+ * Check whether a value is a speech bubble message
+ */
+function isMessage(value: unknown): value is IMessage {
+  const message = value as Partial<IMessage> | null;
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    ['emoji', 'text', 'image'].includes(message.type ?? '') &&
+    typeof message.content === 'string'
+  );
+}
+
+/**
+ * Check whether a value received from the webview is a valid protocol message
+ * Webview messages are untyped at runtime, so every field is checked
+ * @param value - Message received through `onDidReceiveMessage`
+ */
+export function isWebviewToHostMessage(value: unknown): value is WebviewToHostMessage {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const message = value as Record<string, unknown>;
+  switch (message['command']) {
+    case 'ready':
+      return typeof message['version'] === 'number';
+    case 'messageAction':
+      return typeof message['id'] === 'string' && typeof message['action'] === 'string';
+    case 'clicked':
+    case 'dragged':
+      return true;
+    case 'thrown':
+      return typeof message['velocityX'] === 'number' && typeof message['velocityY'] === 'number';
+    case 'messageShown':
+      return isMessage(message['message']);
+    case 'messageDismissed':
+      return (
+        isMessage(message['message']) &&
+        DISMISS_REASONS.includes(message['reason'] as MessageDismissReason)
+      );
+    default:
+      return false;
+  }
+}